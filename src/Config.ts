@@ -1,4 +1,72 @@
+import { BatchingOptions } from './batch/ReadBatcher';
+import { ReadCacheOptions } from './cache/ReadCache';
+import { EncryptionOptions } from './encryption/FieldEncryption';
+import { DatabaseBackend } from './backend/DatabaseBackend';
+import { HistoryOptions } from './history/history';
+import { Middleware } from './middleware/Middleware';
+import { OutboxOptions } from './outbox/Outbox';
+import { RetryPolicy } from './retry/RetryPolicy';
+import { SubscriptionTransport } from './subscriptions/SubscriptionTransport';
+import { HttpTransport } from './transport/HttpTransport';
+
 export interface Config {
   projectId: string;
   projectToken: string;
+
+  // Where requests are sent. Defaults to the hosted database API; pass a
+  // `MemoryBackend` to run entirely in-process.
+  backend?: DatabaseBackend;
+
+  // Where the database API lives, e.g. a staging or self-hosted instance.
+  // Defaults to https://database.api.gokoji.com.
+  baseUrl?: string;
+
+  // Sends HTTP requests for the default backend. Defaults to a
+  // `NodeHttpTransport`; a `FetchTransport` or a test double also work.
+  transport?: HttpTransport;
+
+  // By default, write methods (`set`, `update`, `delete`, ...) resolve `false`
+  // when they fail. Set this to reject with a `DatabaseError` instead.
+  throwOnWriteError?: boolean;
+
+  // Default per-attempt timeout in milliseconds. Unlimited when unset.
+  timeout?: number;
+
+  // Retry failed requests. Unset fields fall back to `defaultRetryPolicy`;
+  // leave this out entirely to never retry.
+  retry?: Partial<RetryPolicy>;
+
+  // Hooks run around every request, e.g. `debugLogger()` or a
+  // `MetricsCollector`. More can be added later with `use`.
+  middleware?: Middleware[];
+
+  // How `onSnapshot` receives changes. Defaults to polling every
+  // `pollInterval` milliseconds (5 seconds if unset).
+  subscriptionTransport?: SubscriptionTransport;
+  pollInterval?: number;
+
+  // Serve repeated `get`, `getAll` and `getWhere` calls from memory. Off
+  // unless set; writes through this adapter invalidate what they touch.
+  cache?: ReadCacheOptions;
+
+  // Largest file `upload` and `postSignedUpload` will send, in bytes.
+  // Unlimited when unset.
+  maxUploadSize?: number;
+
+  // Combine single-document `get` calls made in the same tick into one
+  // `getAll` per collection, and split large `getAll` calls. Off unless set.
+  batching?: BatchingOptions;
+
+  // Keep writes that fail because the service can't be reached in a file,
+  // and replay them in order once it can. Off unless set.
+  outbox?: OutboxOptions;
+
+  // Encrypt chosen fields with AES-GCM before they're sent, and decrypt them
+  // when they're read. Encrypted fields can't be used in predicates.
+  encryption?: EncryptionOptions;
+
+  // Record every write to the listed collections, with the document before
+  // and after, so it can be inspected with `getHistory` and undone with
+  // `restore`. Off unless set.
+  history?: HistoryOptions;
 }
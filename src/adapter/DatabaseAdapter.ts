@@ -1,34 +1,118 @@
-import * as fs from 'fs';
-import * as rp from 'request-promise-native';
-import { Headers } from 'request';
+import * as url from 'url';
 
 import { Config } from '../Config';
+import {
+  AggregateOptions,
+  AggregateValues,
+  Aggregations,
+  GroupResult,
+  aggregate,
+  groupBy,
+} from '../aggregate/aggregate';
+import { ExportOptions, ExportReport, exportCollections } from '../backup/exportCollections';
+import { ImportOptions, ImportReport, importCollections } from '../backup/importCollections';
+import { ConflictRetryOptions, runWithRetry } from '../concurrency/runWithRetry';
+import { ReadBatcher, chunk } from '../batch/ReadBatcher';
+import {
+  BulkWriteOptions,
+  BulkWriteReport,
+  BulkWriteResult,
+  WherePredicate,
+  bulkWrite,
+} from '../bulk/bulkWrite';
+import { ReadCache, ReadCacheStats } from '../cache/ReadCache';
+import { BackendFeatures, DatabaseBackend, DatabaseRequest } from '../backend/DatabaseBackend';
+import { HttpBackend } from '../backend/HttpBackend';
+import {
+  HistoryEntry,
+  HistoryOperation,
+  HistoryOptions,
+  HistoryRetention,
+  StoredHistoryEntry,
+  historyBody,
+  historyEntryName,
+  historyTimestamp,
+  pruneEntries,
+  stateAt,
+} from '../history/history';
+import { EncryptedWrite, FieldEncryption } from '../encryption/FieldEncryption';
+import { expiresAtKey, isExpired, withExpiry, withoutExpired } from '../expiry/expiry';
+import { statusCodeError } from '../backend/statusCodeError';
+import {
+  ConflictError,
+  DatabaseError,
+  DatabaseErrorContext,
+  NotFoundError,
+  QueuedWriteError,
+  TransactionError,
+  UnsupportedFeatureError,
+  ValidationError,
+  toDatabaseError,
+} from '../errors/DatabaseError';
+import { Middleware, OperationContext, operationName } from '../middleware/Middleware';
+import { defaultRetryPolicy, withDeadline, withRetry } from '../retry/RetryPolicy';
+import { Collection, CollectionOptions } from '../collection/Collection';
+import { QueryPage, QuerySpec } from '../query/Query';
+import { runQuery } from '../query/runQuery';
+import { HttpHeaders, HttpResponse } from '../transport/HttpTransport';
+import { NodeHttpTransport } from '../transport/NodeHttpTransport';
+import { encodeMultipart } from '../transport/multipart';
+import {
+  DeadLetter,
+  Outbox,
+  OutboxEntry,
+  OutboxFlushReport,
+  idempotencyKey,
+  isTransientError,
+} from '../outbox/Outbox';
+import { PollingTransport } from '../subscriptions/PollingTransport';
+import { SnapshotListener, Subscription, SubscriptionOptions } from '../subscriptions/Subscription';
+import {
+  TranscodeJob,
+  TranscodeOptions,
+  TranscodeStatus,
+  TranscodeType,
+} from '../transcode/TranscodeJob';
+import {
+  Transaction,
+  TransactionResult,
+  TransactionState,
+  describeOperation,
+} from '../transaction/Transaction';
+import { UploadOptions, UploadSource, prepareUpload } from '../upload/UploadSource';
+import { isValueMarker, valueTypes } from '../values/valueTypes';
+import { RequestOptions, WriteConditions, WriteOptions } from './RequestOptions';
+import { apiUrl } from './apiUrl';
 
 export enum DatabaseAdapterMode {
   TRANSACTION = 'transaction',
   IMMEDIATE = 'immediate',
-};
+}
 
 export class DatabaseAdapter {
   private readonly config: Config;
   private readonly mode: DatabaseAdapterMode;
-  private transactionQueue: rp.OptionsWithUri[] = [];
+  private readonly backend: DatabaseBackend;
+  private transactionQueue: DatabaseRequest[] = [];
+  private subscriptions: Subscription[] = [];
+  private readonly middleware: Middleware[];
+  private readonly cache?: ReadCache;
+  private readonly batcher?: ReadBatcher;
+  private outbox?: Outbox;
+  private readonly encryption?: FieldEncryption;
+  private outboxTimer?: NodeJS.Timer;
+  private replaying?: Promise<OutboxReplay>;
 
-  public static valueTypes = {
-    increment: (number: number) => ({
-      _updateType: 'increment',
-      value: number,
-    }),
-  };
+  public static valueTypes = valueTypes;
 
-  get headers(): Headers {
+  get headers(): HttpHeaders {
     return {
       'Content-Type': 'application/json',
       ...this.authHeaders,
     };
   }
 
-  get authHeaders(): Headers {
+  get authHeaders(): HttpHeaders {
     return {
       'X-Koji-Project-Id': this.config.projectId,
       'X-Koji-Project-Token': this.config.projectToken,
@@ -61,20 +145,82 @@ export class DatabaseAdapter {
     }
 
     this.mode = mode;
+    this.middleware = (this.config.middleware || []).slice();
+    this.backend = this.config.backend || new HttpBackend(this.config.transport);
+    if (this.config.cache && mode === DatabaseAdapterMode.IMMEDIATE) {
+      this.cache = new ReadCache(this.config.cache);
+    }
+    if (this.config.batching && mode === DatabaseAdapterMode.IMMEDIATE) {
+      this.batcher = new ReadBatcher(
+        (collection, documentNames) => this.fetchAll(collection, documentNames, {}),
+        this.config.batching,
+      );
+    }
+    if (this.config.encryption) {
+      this.encryption = new FieldEncryption(this.config.encryption);
+    }
+    if (this.config.outbox && mode === DatabaseAdapterMode.IMMEDIATE) {
+      this.outbox = new Outbox(this.config.outbox.filePath);
+      const { flushInterval = 30000 } = this.config.outbox;
+      if (flushInterval > 0) {
+        this.outboxTimer = setInterval(() => this.replayInBackground(), flushInterval);
+        this.outboxTimer.unref();
+      }
+    }
+  }
+
+  // Add middleware that runs around every request this adapter sends,
+  // including commits of transactions begun afterwards
+  public use(middleware: Middleware): DatabaseAdapter {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  // Whether the backend declares `feature`; see `BackendFeatures`
+  public supports(feature: keyof BackendFeatures): boolean {
+    return !!this.backend.features && !!this.backend.features[feature];
+  }
+
+  // Stop every subscription, drop cached reads and let go of the outbox, so
+  // another adapter can open the same file. The adapter can still be used
+  // afterwards, e.g. when a pool evicts it while a request is running, but
+  // its writes are no longer kept, and a replay that's running stops without
+  // touching the file again.
+  public close() {
+    this.subscriptions.forEach(subscription => subscription.close());
+    this.subscriptions = [];
+    if (this.cache) {
+      this.cache.invalidate();
+    }
+    if (this.outboxTimer) {
+      clearInterval(this.outboxTimer);
+      this.outboxTimer = undefined;
+    }
+    this.outbox = undefined;
   }
 
   //////////////////////////////////////////////////////////////////////////////
   // Store APIs
   //////////////////////////////////////////////////////////////////////////////
+  // Get a typed handle on `collection`, which can also be used to start a
+  // query. See `Collection` and `Query`.
+  public collection<T = any>(
+    collection: string,
+    options: CollectionOptions<T> = {},
+  ): Collection<T> {
+    return new Collection<T>(this, collection, options);
+  }
+
   public async get<T>(
     collection: string,
     documentName?: string | null,
+    requestOptions: RequestOptions = {},
   ): Promise<T> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/get'),
       method: 'POST',
       headers: this.headers,
@@ -85,24 +231,29 @@ export class DatabaseAdapter {
       },
     };
 
-    try {
-      const response = await this.request(options);
-      return response.document;
-    } catch (err) {
-      if (err.statusCode === 404) {
-        throw new Error('Document not found');
-      } else {
-        throw new Error('Service error');
+    const document = await this.cachedRead(options, documentName ? [documentName] : undefined, requestOptions, async () => {
+      if (documentName && this.shouldBatch(requestOptions)) {
+        return (this.batcher as ReadBatcher).load(collection, documentName);
       }
-    }
+
+      try {
+        const response = await this.request(options, requestOptions);
+        return response.document;
+      } catch (err) {
+        throw this.toError(err, options);
+      }
+    });
+    return this.readResult(document, options);
   }
 
-  public async getCollections<T>(): Promise<T> {
+  public async getCollections<T>(
+    requestOptions: RequestOptions = {},
+  ): Promise<T> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/getCollections'),
       method: 'POST',
       headers: this.headers,
@@ -111,10 +262,10 @@ export class DatabaseAdapter {
     };
 
     try {
-      const response = await this.request(options);
+      const response = await this.request(options, requestOptions);
       return response.collections;
     } catch (err) {
-      throw new Error('Service error');
+      throw this.toError(err, options);
     }
   }
 
@@ -122,12 +273,14 @@ export class DatabaseAdapter {
     collection: string,
     queryKey: string,
     queryValue: string,
+    requestOptions: RequestOptions = {},
   ): Promise<T> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
+    this.assertQueryable(collection, [queryKey]);
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/search'),
       method: 'POST',
       headers: this.headers,
@@ -140,14 +293,10 @@ export class DatabaseAdapter {
     };
 
     try {
-      const response = await this.request(options);
-      return response.results;
+      const response = await this.request(options, requestOptions);
+      return this.readResult(response.results, options);
     } catch (err) {
-      if (err.statusCode === 404) {
-        throw new Error('Document not found');
-      } else {
-        throw new Error('Service error');
-      }
+      throw this.toError(err, options);
     }
   }
 
@@ -156,12 +305,14 @@ export class DatabaseAdapter {
     predicateKey: string,
     predicateOperation: string,
     predicateValue: string,
+    requestOptions: RequestOptions = {},
   ): Promise<T> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
+    this.assertQueryable(collection, [predicateKey]);
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/get'),
       method: 'POST',
       headers: this.headers,
@@ -176,47 +327,39 @@ export class DatabaseAdapter {
       },
     };
 
-    try {
-      const response = await this.request(options);
-      return response.document;
-    } catch (err) {
-      if (err.statusCode === 404) {
-        throw new Error('Document not found');
-      } else {
-        throw new Error('Service error');
+    const documents = await this.cachedRead(options, undefined, requestOptions, async () => {
+      try {
+        const response = await this.request(options, requestOptions);
+        return response.document;
+      } catch (err) {
+        throw this.toError(err, options);
       }
-    }
+    });
+    return this.readResult(documents, options);
   }
 
   public async getAll<T>(
     collection: string,
     documentNames: string[],
+    requestOptions: RequestOptions = {},
   ): Promise<T[]> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
 
-    const options: rp.OptionsWithUri = {
-      uri: this.buildUri('/v1/store/getAll'),
-      method: 'POST',
-      headers: this.headers,
-      json: true,
-      body: {
-        collection,
-        documentNames,
-      },
-    };
-
-    try {
-      const response = await this.request(options);
-      return response.results;
-    } catch (err) {
-      if (err.statusCode === 404) {
-        throw new Error('Document not found');
-      } else {
-        throw new Error('Service error');
+    const options = this.getAllRequest(collection, documentNames);
+    const documents = await this.cachedRead(options, documentNames, requestOptions, async () => {
+      if (!this.batcher || documentNames.length <= this.batcher.maxBatchSize) {
+        return this.fetchAll<T>(collection, documentNames, requestOptions);
       }
-    }
+
+      const chunks = await Promise.all(
+        chunk(documentNames, this.batcher.maxBatchSize)
+          .map(names => this.fetchAll<T>(collection, names, requestOptions)),
+      );
+      return ([] as T[]).concat(...chunks);
+    });
+    return this.readResult(documents, options);
   }
 
   public async getAllWhere<T>(
@@ -224,12 +367,14 @@ export class DatabaseAdapter {
     predicateKey: string,
     predicateOperation: string,
     predicateValues: string[],
+    requestOptions: RequestOptions = {},
   ): Promise<T[]> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
+    this.assertQueryable(collection, [predicateKey]);
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/getAllWhere'),
       method: 'POST',
       headers: this.headers,
@@ -243,23 +388,43 @@ export class DatabaseAdapter {
     };
 
     try {
-      const response = await this.request(options);
-      return response.results;
+      const response = await this.request(options, requestOptions);
+      return this.readResult(response.results, options);
     } catch (err) {
-      if (err.statusCode === 404) {
-        throw new Error('Document not found');
-      } else {
-        throw new Error('Service error');
-      }
+      throw this.toError(err, options);
+    }
+  }
+
+  // Run a structured query built with `collection(...)`. Resolves with one
+  // page of results and the cursor for the next page. Unless the backend
+  // supports paging, only the first predicate is sent to the service; see
+  // `runQuery`.
+  public async query<T>(
+    spec: QuerySpec,
+    requestOptions: RequestOptions = {},
+  ): Promise<QueryPage<T>> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
     }
+    this.assertQueryable(
+      spec.collection,
+      spec.predicates.map(({ key }) => key).concat(spec.orderBy.map(({ key }) => key)),
+    );
+
+    const { options, page } = await this.queryStored(spec, requestOptions);
+    return {
+      documents: this.readResult(page.documents, options),
+      nextCursor: page.nextCursor,
+    };
   }
 
   public async set(
     collection: string,
     documentName: string,
     documentBody: any,
+    requestOptions: WriteOptions = {},
   ): Promise<boolean|void> {
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/set'),
       method: 'POST',
       headers: this.headers,
@@ -267,18 +432,20 @@ export class DatabaseAdapter {
       body: {
         collection,
         documentName,
-        documentBody,
+        documentBody: this.encryptWrite(collection, this.fieldOperatorsFor(collection, documentName, withExpiry(documentBody, requestOptions, false)), 'set'),
+        ...this.preconditionFor(collection, documentName, requestOptions),
       },
     };
     try {
-      await this.request(options);
+      await this.requestWrite(options, requestOptions);
       if (this.mode === DatabaseAdapterMode.TRANSACTION) {
         return;
       }
 
+      this.afterWrite(collection, documentName);
       return true;
-    } catch (e) {
-      return false;
+    } catch (err) {
+      return this.writeFailed(err, options);
     }
   }
 
@@ -286,8 +453,9 @@ export class DatabaseAdapter {
     collection: string,
     documentName: string,
     documentBody: any,
+    requestOptions: WriteOptions = {},
   ): Promise<boolean|void> {
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/update'),
       method: 'POST',
       headers: this.headers,
@@ -295,18 +463,20 @@ export class DatabaseAdapter {
       body: {
         collection,
         documentName,
-        documentBody,
+        documentBody: this.encryptWrite(collection, this.fieldOperatorsFor(collection, documentName, withExpiry(documentBody, requestOptions, true)), 'update'),
+        ...this.preconditionFor(collection, documentName, requestOptions),
       },
     };
     try {
-      await this.request(options);
+      await this.requestWrite(options, requestOptions, false);
       if (this.mode === DatabaseAdapterMode.TRANSACTION) {
         return;
       }
 
+      this.afterWrite(collection, documentName);
       return true;
-    } catch (e) {
-      return false;
+    } catch (err) {
+      return this.writeFailed(err, options);
     }
   }
 
@@ -314,8 +484,9 @@ export class DatabaseAdapter {
     collection: string,
     documentName: string,
     documentBody: any,
+    requestOptions: WriteOptions = {},
   ): Promise<boolean|void> {
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/update/push'),
       method: 'POST',
       headers: this.headers,
@@ -323,18 +494,20 @@ export class DatabaseAdapter {
       body: {
         collection,
         documentName,
-        documentBody,
+        documentBody: this.encryptWrite(collection, documentBody, 'arrayPush'),
+        ...this.preconditionFor(collection, documentName, requestOptions),
       },
     };
     try {
-      await this.request(options);
+      await this.requestWrite(options, requestOptions, false);
       if (this.mode === DatabaseAdapterMode.TRANSACTION) {
         return;
       }
 
+      this.afterWrite(collection, documentName);
       return true;
-    } catch (e) {
-      return false;
+    } catch (err) {
+      return this.writeFailed(err, options);
     }
   }
 
@@ -342,8 +515,9 @@ export class DatabaseAdapter {
     collection: string,
     documentName: string,
     documentBody: any,
+    requestOptions: WriteOptions = {},
   ): Promise<boolean|void> {
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/update/remove'),
       method: 'POST',
       headers: this.headers,
@@ -351,26 +525,29 @@ export class DatabaseAdapter {
       body: {
         collection,
         documentName,
-        documentBody,
+        documentBody: this.encryptWrite(collection, documentBody, 'arrayRemove'),
+        ...this.preconditionFor(collection, documentName, requestOptions),
       },
     };
     try {
-      await this.request(options);
+      await this.requestWrite(options, requestOptions);
       if (this.mode === DatabaseAdapterMode.TRANSACTION) {
         return;
       }
 
+      this.afterWrite(collection, documentName);
       return true;
-    } catch (e) {
-      return false;
+    } catch (err) {
+      return this.writeFailed(err, options);
     }
   }
 
   public async delete(
     collection: string,
     documentName: string,
+    requestOptions: WriteOptions = {},
   ): Promise<boolean|void> {
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/delete'),
       method: 'POST',
       headers: this.headers,
@@ -378,37 +555,44 @@ export class DatabaseAdapter {
       body: {
         collection,
         documentName,
+        ...this.preconditionFor(collection, documentName, requestOptions),
       },
     };
     try {
-      await this.request(options);
+      await this.requestWrite(options, requestOptions);
       if (this.mode === DatabaseAdapterMode.TRANSACTION) {
         return;
       }
 
+      this.afterWrite(collection, documentName);
       return true;
-    } catch (e) {
-      return false;
+    } catch (err) {
+      return this.writeFailed(err, options);
     }
   }
 
-  // Upload a file
-  public async uploadFile(
-    path: string,
-    filename?: string,
-    contentType?: string,
-  ): Promise<string|void> {
+  // Upload a file from a path, a Buffer or a stream, resolving with its URL.
+  // See `UploadOptions` for progress reporting and size limits.
+  public async upload(
+    source: UploadSource,
+    uploadOptions: UploadOptions = {},
+  ): Promise<string> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
 
-    const options: rp.OptionsWithUri = {
+    const { stream, filename, contentType } = await prepareUpload(
+      source,
+      uploadOptions,
+      this.maxUploadSize(uploadOptions),
+    );
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/objectStore/upload'),
       method: 'POST',
       headers: this.authHeaders,
       formData: {
         file: {
-          value: fs.createReadStream(path),
+          value: stream,
           options: {
             filename,
             contentType,
@@ -418,25 +602,36 @@ export class DatabaseAdapter {
     };
 
     try {
-      const response = await this.request(options);
+      const response = await this.request(options, uploadOptions, false);
 
       const { url } = JSON.parse(response);
       return url;
     } catch (err) {
-      throw new Error('Service error');
+      throw this.toError(err, options);
     }
   }
 
+  // Upload a file
+  public async uploadFile(
+    path: string,
+    filename?: string,
+    contentType?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<string> {
+    return this.upload(path, { ...requestOptions, filename, contentType });
+  }
+
   // Generate a signed URL for uploading a file directly to the koji-cdn S3
   // bucket
   public async generateSignedUploadRequest(
     fileName: string,
+    requestOptions: RequestOptions = {},
   ): Promise<SignedUploadRequest> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/objectStore/generateSignedRequest'),
       method: 'POST',
       headers: this.authHeaders,
@@ -447,76 +642,119 @@ export class DatabaseAdapter {
     };
 
     try {
-      const response = await this.request(options);
+      const response = await this.request(options, requestOptions);
       const { url, signedRequest } = response;
       return {
         url,
         signedRequest,
       };
     } catch (err) {
-      throw new Error('Service error');
+      throw this.toError(err, options);
     }
   }
 
-  // Transcode an asset that has been uploaded to koji-cdn. This method returns
-  // the URL of the transcoded asset, as well as a callback token that can be
-  // used in conjunction with `getTranscodeStatus` to poll for transcode progress.
-  // Transcoding videos usually completes in a few seconds, but can be longer
-  // for longer videos. Use something like:
-  //
-  // await new Promise((resolve: any) => {
-  //   const checkStatus = async () => {
-  //     const { isFinished } = await database.getTranscodeStatus(callbackToken);
-  //     if (isFinished) {
-  //       resolve();
-  //     } else {
-  //       setTimeout(() => checkStatus(), 500);
-  //     }
-  //   };
-
-  //   checkStatus();
-  // });
-
-  public async transcodeAsset(
-    path: string,
-    transcodeType: 'video+hls',
-  ) {
-    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
-      throw new Error('not available inside transaction');
-    }
+  // Send a file straight to the koji-cdn bucket with a request from
+  // `generateSignedUploadRequest`, so it never passes through the database
+  // API. Resolves with the file's public URL.
+  public async postSignedUpload(
+    signedUploadRequest: SignedUploadRequest,
+    source: UploadSource,
+    uploadOptions: UploadOptions = {},
+  ): Promise<string> {
+    const { signedRequest } = signedUploadRequest;
+    const { stream, filename, contentType } = await prepareUpload(
+      source,
+      uploadOptions,
+      this.maxUploadSize(uploadOptions),
+    );
 
-    const options: rp.OptionsWithUri = {
-      uri: this.buildUri('/v1/objectStore/transcode'),
-      method: 'POST',
-      headers: this.authHeaders,
-      json: true,
-      body: {
-        path,
-        type: transcodeType,
+    // S3 ignores any fields after the file, so it goes last
+    const multipart = encodeMultipart({
+      ...signedRequest.fields,
+      file: {
+        value: stream,
+        options: {
+          filename,
+          contentType,
+        },
       },
-    };
+    });
 
+    const transport = this.config.transport || new NodeHttpTransport();
+    const endpoint = url.parse(signedRequest.url).pathname;
+    let response: HttpResponse;
     try {
-      const response = await this.request(options);
-      const { url, callbackTokens } = response;
-      return {
-        url,
-        callbackToken: callbackTokens[0],
-      };
+      response = await transport.send(
+        {
+          url: signedRequest.url,
+          method: 'POST',
+          headers: { 'Content-Type': multipart.contentType },
+          body: multipart.body,
+          timeout: uploadOptions.timeout !== undefined ? uploadOptions.timeout : this.config.timeout,
+        },
+        uploadOptions.signal,
+      );
     } catch (err) {
-      console.log(err);
-      throw new Error('Service error');
+      throw toDatabaseError(err, { endpoint });
+    }
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw toDatabaseError(statusCodeError(response.statusCode, response.body, response.headers), { endpoint });
     }
+    return signedUploadRequest.url;
+  }
+
+  // Generate a signed request for `filename` and upload `source` with it
+  public async uploadDirect(
+    source: UploadSource,
+    uploadOptions: UploadOptions & { filename: string },
+  ): Promise<string> {
+    const signedUploadRequest = await this.generateSignedUploadRequest(uploadOptions.filename, uploadOptions);
+    return this.postSignedUpload(signedUploadRequest, source, uploadOptions);
+  }
+
+  // Transcode an asset that has been uploaded to koji-cdn. Resolves with a
+  // `TranscodeJob` as soon as the work has started; use its `wait` to find
+  // out when the output at `job.url` is ready. Videos usually take a few
+  // seconds, longer ones more.
+  public async transcode(
+    path: string,
+    transcodeOptions: TranscodeOptions,
+    requestOptions: RequestOptions = {},
+  ): Promise<TranscodeJob> {
+    const { url, callbackTokens } = await this.startTranscode(path, transcodeOptions, requestOptions);
+    return new TranscodeJob(this, url, callbackTokens);
+  }
+
+  // Start a transcode, returning the URL of the transcoded asset and the
+  // callback token(s) to pass to `getTranscodeStatus`. `transcode` does the
+  // polling for you.
+  public async transcodeAsset(
+    path: string,
+    transcodeType: TranscodeType | TranscodeOptions,
+    requestOptions: RequestOptions = {},
+  ) {
+    const { url, callbackTokens } = await this.startTranscode(
+      path,
+      typeof transcodeType === 'string' ? { type: transcodeType } as TranscodeOptions : transcodeType,
+      requestOptions,
+    );
+    return {
+      url,
+      callbackTokens,
+      callbackToken: callbackTokens[0],
+    };
   }
 
   public async getTranscodeStatus(
     callbackToken: string,
-  ) {
+    requestOptions: RequestOptions = {},
+  ): Promise<TranscodeStatus> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not available inside transaction');
     }
 
-    const options: rp.OptionsWithUri = {
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/objectStore/transcode/status'),
       method: 'POST',
       headers: this.authHeaders,
@@ -527,32 +765,85 @@ export class DatabaseAdapter {
     };
 
     try {
-      const response = await this.request(options);
-      const { isResolved } = response;
+      const response = await this.request(options, requestOptions);
+      const { isResolved, progress, error } = response;
       return {
-        isFinished: isResolved,
+        isFinished: !!isResolved,
+        ...(typeof progress === 'number' ? { progress } : {}),
+        ...(error ? { error: typeof error === 'string' ? error : error.message || 'Transcode failed' } : {}),
       };
     } catch (err) {
-      throw new Error('Service error');
+      throw this.toError(err, options);
     }
   }
 
   // Create a new transaction
-  public beginTransaction(): DatabaseAdapter {
-    return new DatabaseAdapter(this.config, DatabaseAdapterMode.TRANSACTION);
+  public beginTransaction(): Transaction {
+    return new Transaction(
+      new DatabaseAdapter({ ...this.config, middleware: this.middleware }, DatabaseAdapterMode.TRANSACTION),
+      results => results.forEach(({ collection, documentName }) => this.afterWrite(collection, documentName)),
+    );
+  }
+
+  // Run `callback` with a new transaction, committing it if the callback
+  // resolves and aborting it if the callback throws
+  public async runTransaction<T>(
+    callback: (transaction: Transaction) => Promise<T>,
+    requestOptions: RequestOptions = {},
+  ): Promise<T> {
+    const transaction = this.beginTransaction();
+
+    let result: T;
+    try {
+      result = await callback(transaction);
+    } catch (err) {
+      if (transaction.state === TransactionState.OPEN) {
+        transaction.abort();
+      }
+      throw err;
+    }
+
+    await transaction.commit(requestOptions);
+    return result;
+  }
+
+  // Run a read-modify-write `operation`, starting it over when one of its
+  // conditional writes (`ifVersion`, `ifNotExists`) conflicts
+  public runWithRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    options: ConflictRetryOptions = {},
+  ): Promise<T> {
+    return runWithRetry(operation, {
+      ...options,
+      onConflict: (error, attempt) => {
+        if (error.collection) {
+          this.invalidate(error.collection, error.documentName);
+        }
+        if (options.onConflict) {
+          options.onConflict(error, attempt);
+        }
+      },
+    });
   }
-  public async commitTransaction() {
+
+  public async commitTransaction(requestOptions: RequestOptions = {}): Promise<TransactionResult[]> {
     if (this.mode !== DatabaseAdapterMode.TRANSACTION) {
       throw new Error('not in a trasaction');
     }
 
+    // Take everything off the queue, so a second commit can't re-send it
+    const queue = this.transactionQueue.splice(0, this.transactionQueue.length);
+    if (queue.length === 0) {
+      return [];
+    }
+
     // Build one big request from everything
-    const requestBody = this.transactionQueue.map(({ uri, body }) => ({
+    const requestBody = queue.map(({ uri, body }) => ({
       uri,
       body,
     }));
 
-    await rp({
+    const options: DatabaseRequest = {
       uri: this.buildUri('/v1/store/transaction'),
       method: 'POST',
       headers: this.authHeaders,
@@ -560,35 +851,1182 @@ export class DatabaseAdapter {
       body: {
         operations: requestBody,
       },
-    });
+    };
+
+    const changes = await this.changesBefore(queue);
+
+    let response: any;
+    try {
+      response = await this.send(options, requestOptions, false);
+    } catch (err) {
+      throw this.toTransactionError(err, options, queue);
+    }
+
+    await this.recordChanges(changes);
+
+    const results: any[] = (response && response.results) || [];
+    return queue.map((operation, index) => ({
+      ...describeOperation(operation, index),
+      result: results[index],
+    }));
   }
 
   //////////////////////////////////////////////////////////////////////////////
-  // Helpers
+  // Bulk writes
   //////////////////////////////////////////////////////////////////////////////
-  private buildUri(path: string): string {
-    if (process.env.NODE_TEST) {
-      return `http://localhost:3129${path}`;
+  // These send their writes in transactions of `batchSize` documents, a few at
+  // a time, and report success or failure per document instead of resolving
+  // with one boolean.
+  public async setMany(
+    collection: string,
+    documents: { [documentName: string]: any },
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
     }
-    return `https://database.api.gokoji.com${path}`;
+
+    return bulkWrite(this, Object.keys(documents).map(documentName => ({
+      documentName,
+      apply: (transaction: Transaction) => transaction.set(collection, documentName, documents[documentName]),
+    })), options);
   }
 
-  private request(options: rp.OptionsWithUri) {
+  public async updateMany(
+    collection: string,
+    documents: { [documentName: string]: any },
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
     if (this.mode === DatabaseAdapterMode.TRANSACTION) {
-      // If we're in a transaction, batch all these requests and send them off
-      // all at once when we commit the transaction.
-      this.transactionQueue.push(options);
-    } else {
-      // Otherwise, send the request immediately and return the result
-      return rp(options);
+      throw new Error('not available inside transaction');
+    }
+
+    return bulkWrite(this, Object.keys(documents).map(documentName => ({
+      documentName,
+      apply: (transaction: Transaction) => transaction.update(collection, documentName, documents[documentName]),
+    })), options);
+  }
+
+  public async deleteMany(
+    collection: string,
+    documentNames: string[],
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+
+    return bulkWrite(this, documentNames.map(documentName => ({
+      documentName,
+      apply: (transaction: Transaction) => transaction.delete(collection, documentName),
+    })), options);
+  }
+
+  // Delete every document matching `predicate`, as `getWhere` would find them
+  public async deleteWhere(
+    collection: string,
+    predicate: WherePredicate,
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    const matches = await this.getWhere<any[]>(
+      collection,
+      predicate.key,
+      predicate.operation,
+      predicate.value,
+      { ...options, cache: false },
+    );
+    return this.deleteMany(collection, (matches || []).map(({ _id }) => String(_id)), options);
+  }
+
+  // Delete documents whose expiry has passed, in `collection` or in every
+  // collection. A document rewritten since it was found to be expired is
+  // left alone.
+  public async purgeExpired(
+    collection?: string,
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+    this.requireFeature('preconditions', 'purgeExpired needs a backend that supports preconditions', { collection });
+
+    const collections = collection ? [collection] : await this.getCollections<string[]>(options);
+    const now = Date.now();
+
+    const reports: BulkWriteReport[] = [];
+    for (const name of collections) {
+      // Not `getWhere`, which hides exactly the documents we're looking for
+      const request: DatabaseRequest = {
+        uri: this.buildUri('/v1/store/get'),
+        method: 'POST',
+        headers: this.headers,
+        json: true,
+        body: {
+          collection: name,
+          predicate: { key: expiresAtKey, operation: '<=', value: now },
+        },
+      };
+
+      let expired: any[];
+      try {
+        const response = await this.request(request, options);
+        expired = response.document || [];
+      } catch (err) {
+        throw this.toError(err, request);
+      }
+
+      reports.push(await bulkWrite(this, expired.map(document => ({
+        documentName: String(document._id),
+        apply: (transaction: Transaction) => transaction.delete(name, String(document._id), {
+          ifVersion: document._version,
+        }),
+      })), options));
+    }
+
+    return {
+      results: ([] as BulkWriteResult[]).concat(...reports.map(report => report.results)),
+      succeeded: reports.reduce((total, report) => total + report.succeeded, 0),
+      failed: reports.reduce((total, report) => total + report.failed, 0),
+    };
+  }
+
+  // Re-encrypt every document in `collection` that has a configured field in
+  // plaintext or encrypted with a key other than `currentKeyId`. Run it after
+  // changing `currentKeyId`, then the old key can be removed from `keys`.
+  public async rotateKey(
+    collection: string,
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+
+    const encryption = this.encryption;
+    if (!encryption) {
+      return { results: [], succeeded: 0, failed: 0 };
     }
+    this.requireFeature('preconditions', 'rotateKey needs a backend that supports preconditions', { collection });
+
+    const { page } = await this.queryStored({ collection, predicates: [], orderBy: [] }, options);
+    const stale = page.documents.filter(document => encryption.needsRotation(collection, document));
+
+    // Conditional on the version that was read, so a concurrent write isn't
+    // overwritten with older values
+    return bulkWrite(this, stale.map(document => ({
+      documentName: String(document._id),
+      apply: (transaction: Transaction) => transaction.update(
+        collection,
+        String(document._id),
+        encryption.plaintextFields(collection, document),
+        { ifVersion: document._version },
+      ),
+    })), options);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Aggregations
+  //////////////////////////////////////////////////////////////////////////////
+  // These iterate over the matching documents, a page at a time where the
+  // backend supports paging, and reduce them in the client. `predicate` has
+  // the same shape as `getWhere`'s arguments.
+  public async aggregate<A extends Aggregations>(
+    collection: string,
+    aggregations: A,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<AggregateValues<A>> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+    return aggregate(this, collection, aggregations, predicate, options);
+  }
+
+  public async count(
+    collection: string,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<number> {
+    const { count } = await this.aggregate(collection, { count: 'count' }, predicate, options);
+    return count;
+  }
+
+  public async sum(
+    collection: string,
+    field: string,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<number> {
+    const { sum } = await this.aggregate(collection, { sum: { sum: field } }, predicate, options);
+    return sum;
+  }
+
+  // Null when no matching document has a number in `field`, as for `min` and
+  // `max`
+  public async avg(
+    collection: string,
+    field: string,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<number | null> {
+    const { avg } = await this.aggregate(collection, { avg: { avg: field } }, predicate, options);
+    return avg;
+  }
+
+  public async min(
+    collection: string,
+    field: string,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<number | null> {
+    const { min } = await this.aggregate(collection, { min: { min: field } }, predicate, options);
+    return min;
+  }
+
+  public async max(
+    collection: string,
+    field: string,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<number | null> {
+    const { max } = await this.aggregate(collection, { max: { max: field } }, predicate, options);
+    return max;
+  }
+
+  // One result per distinct value of `field`, e.g. the average score per
+  // level:
+  //
+  //   await database.groupBy('scores', 'level', { players: 'count', average: { avg: 'score' } });
+  public async groupBy<A extends Aggregations>(
+    collection: string,
+    field: string,
+    aggregations: A,
+    predicate?: WherePredicate,
+    options: AggregateOptions = {},
+  ): Promise<GroupResult<A>[]> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+    return groupBy(this, collection, field, aggregations, predicate, options);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Backups
+  //////////////////////////////////////////////////////////////////////////////
+  // Write the project's documents to `stream` as NDJSON, one line per
+  // document. Encrypted fields are exported as stored, so a backup never
+  // holds their plaintext. The stream is left open.
+  public async exportCollections(
+    stream: NodeJS.WritableStream,
+    options: ExportOptions = {},
+  ): Promise<ExportReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+    return exportCollections(this, stream, options, async (collection) => {
+      const { page } = await this.queryStored({ collection, predicates: [], orderBy: [] }, options);
+      return page.documents;
+    });
+  }
+
+  // Restore documents from an export, in batched transactions
+  public async importCollections(
+    stream: NodeJS.ReadableStream,
+    options: ImportOptions = {},
+  ): Promise<ImportReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+    return importCollections(this, stream, options);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // History
+  //////////////////////////////////////////////////////////////////////////////
+  // Every recorded write to `documentName`, newest first. Empty unless
+  // `Config.history` lists `collection`.
+  public async getHistory(
+    collection: string,
+    documentName: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<HistoryEntry[]> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+
+    const historyCollection = this.historyCollection(collection);
+    if (!historyCollection) {
+      return [];
+    }
+
+    const iterator = this.collection(historyCollection)
+      .where('documentName', '==', documentName)
+      .orderBy('timestamp', 'desc')
+      .iterate({ ...requestOptions, cache: false });
+
+    const entries: HistoryEntry[] = [];
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        break;
+      }
+
+      const { _id, _version, ...entry } = value;
+      entries.push({
+        ...entry,
+        previous: this.decryptStored(collection, entry.previous),
+        current: this.decryptStored(collection, entry.current),
+      });
+    }
+    return entries;
+  }
+
+  // Put `documentName` back the way it was at `at`, according to its history.
+  // The restore is itself a write, so it's recorded too and can be undone
+  // the same way. Rejects with a `NotFoundError` when there's no history. An
+  // expiry that has passed since then is dropped, or the restored document
+  // would be hidden as soon as it was written.
+  public async restore(
+    collection: string,
+    documentName: string,
+    at: number | Date,
+    requestOptions: WriteOptions = {},
+  ): Promise<boolean|void> {
+    const entries = await this.getHistory(collection, documentName, requestOptions);
+    const state = stateAt(entries, new Date(at).getTime());
+    if (state === undefined) {
+      throw new NotFoundError({ collection, documentName });
+    }
+
+    if (state === null) {
+      return this.delete(collection, documentName, requestOptions);
+    }
+
+    const documentBody = { ...state };
+    if (isExpired(documentBody)) {
+      delete documentBody[expiresAtKey];
+    }
+    return this.set(collection, documentName, documentBody, requestOptions);
+  }
+
+  // Delete every entry in `collection`'s history that `retention` no longer
+  // keeps, including entries for documents that haven't been written lately
+  public async pruneHistory(
+    collection: string,
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+
+    const historyCollection = this.historyCollection(collection);
+    const retention = this.config.history && this.config.history.retention;
+    if (!historyCollection || !retention) {
+      return { results: [], succeeded: 0, failed: 0 };
+    }
+
+    const iterator = this.collection(historyCollection).iterate({ ...options, cache: false });
+    const entries: StoredHistoryEntry[] = [];
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        break;
+      }
+      entries.push({ _id: value._id, documentName: value.documentName, timestamp: value.timestamp });
+    }
+
+    return this.deleteMany(historyCollection, pruneEntries(entries, retention), options);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Outbox
+  //////////////////////////////////////////////////////////////////////////////
+  // Writes kept because the service couldn't be reached, oldest first. Empty
+  // unless `Config.outbox` is set.
+  public pendingWrites(): OutboxEntry[] {
+    return this.outbox ? this.outbox.pending() : [];
+  }
+
+  // Kept writes that the service rejected when they were replayed
+  public deadLetters(): DeadLetter[] {
+    return this.outbox ? this.outbox.deadLetters() : [];
+  }
+
+  public clearDeadLetters() {
+    if (this.outbox) {
+      this.outbox.clearDeadLetters();
+    }
+  }
+
+  // Replay pending writes now, in order, stopping at the first one that still
+  // can't be delivered
+  public async flushOutbox(): Promise<OutboxFlushReport> {
+    if (!this.outbox) {
+      return { applied: 0, deadLettered: 0, pending: 0 };
+    }
+    const { report } = await this.replayOutbox();
+    return report;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Cache
+  //////////////////////////////////////////////////////////////////////////////
+  // Drop cached reads of `collection`, or only those that could include
+  // `documentName`. Writes through this adapter do this automatically; use it
+  // when something else may have changed the data.
+  public invalidate(collection: string, documentName?: string | null) {
+    if (this.cache) {
+      this.cache.invalidate(collection, documentName);
+    }
+  }
+
+  // Hit/miss counts for the read cache, or undefined when caching is off
+  public cacheStats(): ReadCacheStats | undefined {
+    return this.cache ? this.cache.stats() : undefined;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Subscriptions
+  //////////////////////////////////////////////////////////////////////////////
+
+  // Call `listener` with added/modified/removed events whenever a document,
+  // or any document in a collection, changes. The first call reports
+  // everything that already exists as added. Returns a function that stops
+  // the subscription.
+  public onSnapshot(
+    collection: string,
+    listener: SnapshotListener,
+    options?: SubscriptionOptions,
+  ): () => void;
+  public onSnapshot(
+    collection: string,
+    documentName: string | null | undefined,
+    listener: SnapshotListener,
+    options?: SubscriptionOptions,
+  ): () => void;
+  public onSnapshot(collection: string, ...args: any[]): () => void {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+
+    const [documentName, listener, options] = typeof args[0] === 'function'
+      ? [undefined, args[0], args[1]]
+      : args;
+
+    const transport = this.config.subscriptionTransport
+      || new PollingTransport(this, this.config.pollInterval || 5000);
+    const subscription = new Subscription(
+      transport,
+      { collection, documentName: documentName || undefined },
+      listener,
+      options,
+    );
+
+    this.subscriptions.push(subscription);
+    subscription.start();
+
+    return () => {
+      subscription.close();
+      this.subscriptions = this.subscriptions.filter(existing => existing !== subscription);
+    };
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Helpers
+  //////////////////////////////////////////////////////////////////////////////
+  // Let anything watching or caching `collection` know it was written to
+  // through this adapter
+  private afterWrite(collection: string, documentName?: string) {
+    this.invalidate(collection, documentName);
+    this.subscriptions
+      .filter(subscription => subscription.matches(collection, documentName))
+      .forEach(subscription => subscription.refresh());
+  }
+
+  private async startTranscode(
+    path: string,
+    transcodeOptions: TranscodeOptions,
+    requestOptions: RequestOptions,
+  ): Promise<{ url: string, callbackTokens: string[] }> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      throw new Error('not available inside transaction');
+    }
+
+    const { type, ...typeOptions } = transcodeOptions as any;
+    const options: DatabaseRequest = {
+      uri: this.buildUri('/v1/objectStore/transcode'),
+      method: 'POST',
+      headers: this.authHeaders,
+      json: true,
+      body: {
+        path,
+        type,
+        ...(Object.keys(typeOptions).length > 0 ? { options: typeOptions } : {}),
+      },
+    };
+
+    try {
+      const response = await this.request(options, requestOptions, false);
+      const { url, callbackTokens } = response;
+      return {
+        url,
+        callbackTokens: callbackTokens || [],
+      };
+    } catch (err) {
+      throw this.toError(err, options);
+    }
+  }
+
+  private maxUploadSize(uploadOptions: UploadOptions): number | undefined {
+    return uploadOptions.maxSize !== undefined ? uploadOptions.maxSize : this.config.maxUploadSize;
+  }
+
+  // Resolve a failed write with `false`, or reject if `throwOnWriteError` is
+  // set. Conflicts always reject, since the caller asked for a condition.
+  private writeFailed(err: any, options: DatabaseRequest): false {
+    const error = this.toError(err, options);
+    if (error instanceof ConflictError) {
+      // Whatever is cached for the document is older than what's stored
+      if (error.collection) {
+        this.invalidate(error.collection, error.documentName);
+      }
+      throw error;
+    }
+    // Resolving false would invite a retry of a write that's still going to
+    // be applied
+    if (error instanceof QueuedWriteError || this.config.throwOnWriteError) {
+      throw error;
+    }
+    return false;
+  }
+
+  // Serve a read from the cache when one is configured for `collection`,
+  // otherwise load it and cache the result. Failed reads aren't cached.
+  private async cachedRead<T>(
+    options: DatabaseRequest,
+    documentNames: string[] | undefined,
+    requestOptions: RequestOptions,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const { collection } = options.body;
+    const cache = this.cache;
+    if (!cache || requestOptions.cache === false || !cache.isEnabled(collection)) {
+      return load();
+    }
+
+    const key = `${url.parse(String(options.uri)).pathname} ${JSON.stringify(options.body)}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const since = cache.mark();
+    const value = await load();
+    cache.set(key, collection, documentNames, value, since);
+    return value;
+  }
+
+  // Send a write, recording it in its collection's history if it keeps one.
+  // Inside a transaction, writes are recorded when it's committed instead.
+  private async requestWrite(
+    options: DatabaseRequest,
+    requestOptions: WriteOptions,
+    idempotent: boolean = true,
+  ): Promise<void> {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      await this.request(options, requestOptions, idempotent);
+      return;
+    }
+
+    const changes = await this.changesBefore([options]);
+    await this.deliverWrite(options, requestOptions, idempotent);
+    await this.recordChanges(changes, requestOptions.actor);
+  }
+
+  // With an outbox, a write that fails because the service can't be reached
+  // is kept for replay and rejects with a `QueuedWriteError`. While any are
+  // kept, new writes queue behind them so everything is applied in the order
+  // it was made.
+  private async deliverWrite(
+    options: DatabaseRequest,
+    requestOptions: RequestOptions,
+    idempotent: boolean,
+  ): Promise<void> {
+    const outbox = this.outbox;
+    if (!outbox) {
+      await this.request(options, requestOptions, idempotent);
+      return;
+    }
+
+    options.body.idempotencyKey = idempotencyKey();
+    const entry = outboxEntry(options);
+
+    if (outbox.size === 0) {
+      try {
+        await this.request(options, requestOptions, idempotent);
+      } catch (err) {
+        const error = this.toError(err, options);
+        if (isTransientError(error) && this.outbox === outbox) {
+          outbox.append(entry);
+          throw queuedWriteError(entry, error);
+        }
+        throw error;
+      }
+      return;
+    }
+
+    outbox.append(entry);
+    let replay: OutboxReplay;
+    do {
+      replay = await this.replayOutbox();
+    } while (outbox.isPending(entry.id) && !replay.stoppedBy && this.outbox === outbox);
+
+    if (replay.errors[entry.id]) {
+      throw replay.errors[entry.id];
+    }
+    if (outbox.isPending(entry.id)) {
+      throw queuedWriteError(entry, replay.stoppedBy);
+    }
+  }
+
+  // Only one replay runs at a time; callers arriving mid-replay share it
+  private replayOutbox(): Promise<OutboxReplay> {
+    if (!this.replaying) {
+      const done = () => {
+        this.replaying = undefined;
+      };
+      this.replaying = this.replayPending(this.outbox as Outbox);
+      this.replaying.then(done, done);
+    }
+    return this.replaying;
+  }
+
+  private replayInBackground() {
+    if (this.outbox && this.outbox.size > 0 && !this.replaying) {
+      this.replayOutbox().catch(() => undefined);
+    }
+  }
+
+  private async replayPending(outbox: Outbox): Promise<OutboxReplay> {
+    const errors: { [id: string]: DatabaseError } = {};
+    let applied = 0;
+    let deadLettered = 0;
+    let stoppedBy: DatabaseError | undefined;
+
+    let entry = outbox.first();
+    while (entry && this.outbox === outbox) {
+      const options: DatabaseRequest = {
+        uri: entry.uri,
+        method: 'POST',
+        headers: this.headers,
+        json: true,
+        body: entry.body,
+      };
+
+      let error: DatabaseError | undefined;
+      try {
+        // The idempotency key makes even non-idempotent writes safe to retry
+        await this.send(options, {}, true);
+      } catch (err) {
+        error = this.toError(err, options);
+      }
+
+      // Closed mid-request. The file now belongs to whichever adapter opened
+      // it next, which replays this entry again under the same key.
+      if (this.outbox !== outbox) {
+        break;
+      }
+
+      if (!error) {
+        outbox.applied(entry.id);
+        applied += 1;
+      } else if (isTransientError(error)) {
+        outbox.attempted(entry.id);
+        stoppedBy = error;
+        break;
+      } else {
+        outbox.deadLetter(entry.id, error);
+        errors[entry.id] = error;
+        deadLettered += 1;
+      }
+
+      this.afterWrite(entry.collection, entry.documentName);
+      entry = outbox.first();
+    }
+
+    if (this.outbox === outbox) {
+      outbox.compact();
+    }
+    return {
+      errors,
+      stoppedBy,
+      report: { applied, deadLettered, pending: outbox.size },
+    };
+  }
+
+  // Where `collection`'s history is kept, or undefined if it isn't
+  private historyCollection(collection: string): string | undefined {
+    const history = this.config.history;
+    if (!history || history.collections.indexOf(collection) === -1) {
+      return undefined;
+    }
+    return `${collection}${history.suffix || '_history'}`;
+  }
+
+  // Send a request now, even from a transaction adapter
+  private sendNow(path: string, body: any): Promise<any> {
+    return this.send(
+      {
+        body,
+        uri: this.buildUri(path),
+        method: 'POST',
+        headers: this.headers,
+        json: true,
+      },
+      {},
+      true,
+    );
+  }
+
+  // A document as stored, bypassing the cache, expiry and decryption. Null
+  // when it doesn't exist.
+  private async readStored(collection: string, documentName: string): Promise<any | null> {
+    try {
+      const response = await this.sendNow('/v1/store/get', { collection, documentName });
+      return response.document || null;
+    } catch (err) {
+      const error = toDatabaseError(err, { collection, documentName, endpoint: '/v1/store/get' });
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private decryptStored(collection: string, document: any): any {
+    return this.encryption && document ? this.encryption.decryptDocument(collection, document) : document;
+  }
+
+  // Read the documents `requests` are about to write, for those in
+  // collections that keep history. A document written more than once gets one
+  // change, named after its last write. A document that can't be read goes
+  // unrecorded rather than failing the write, so a write made while the
+  // service is unreachable still reaches the outbox.
+  private async changesBefore(requests: DatabaseRequest[]): Promise<HistoryChange[]> {
+    const changes: HistoryChange[] = [];
+    for (let index = 0; index < requests.length; index += 1) {
+      const { operation, collection, documentName } = describeOperation(requests[index], index);
+      const current = writtenDocument(requests[index]);
+      const existing = changes
+        .filter(change => change.collection === collection && change.documentName === documentName)[0];
+
+      if (existing) {
+        existing.operation = operation;
+        existing.current = current;
+      } else if (this.historyCollection(collection)) {
+        try {
+          const previous = await this.readStored(collection, documentName);
+          changes.push({ operation, collection, documentName, previous, current });
+        } catch (err) {
+          // Already reported through middleware
+        }
+      }
+    }
+    return changes;
+  }
+
+  // The writes have already been applied, so failing to record them doesn't
+  // fail the write; the failed request still reaches middleware
+  private async recordChanges(changes: HistoryChange[], actor?: string) {
+    for (const change of changes) {
+      try {
+        await this.recordChange(change, actor);
+      } catch (err) {
+        // Already reported through middleware
+      }
+    }
+  }
+
+  private async recordChange(change: HistoryChange, actor?: string) {
+    const { operation, collection, documentName, previous } = change;
+    const history = this.config.history as HistoryOptions;
+    const historyCollection = this.historyCollection(collection) as string;
+    const timestamp = historyTimestamp();
+
+    const entry: HistoryEntry = {
+      operation,
+      collection,
+      documentName,
+      timestamp,
+      previous: historyBody(previous),
+      current: historyBody(change.current !== undefined ? change.current : await this.readStored(collection, documentName)),
+      actor: actor || history.actor,
+    };
+    await this.sendNow('/v1/store/set', {
+      collection: historyCollection,
+      documentName: historyEntryName(documentName, timestamp),
+      documentBody: entry,
+    });
+
+    if (history.retention) {
+      await this.pruneDocumentHistory(historyCollection, documentName, history.retention);
+    }
+  }
+
+  private async pruneDocumentHistory(historyCollection: string, documentName: string, retention: HistoryRetention) {
+    const response = await this.sendNow('/v1/store/get', {
+      collection: historyCollection,
+      predicate: { key: 'documentName', operation: '==', value: documentName },
+    });
+    for (const id of pruneEntries(response.document || [], retention)) {
+      await this.sendNow('/v1/store/delete', { collection: historyCollection, documentName: id });
+    }
+  }
+
+  // One page of a query, as stored, with encrypted fields still encrypted.
+  // A backend with paging answers with the page itself. Otherwise the service
+  // reads the documents matching the first predicate and `runQuery` does the
+  // rest. Either way, expired documents are left out before paging so they
+  // don't leave pages short.
+  private async queryStored(
+    spec: QuerySpec,
+    requestOptions: RequestOptions,
+  ): Promise<{ options: DatabaseRequest, page: QueryPage<any> }> {
+    const isPaged = this.supports('paging');
+    const { collection, ...query } = spec;
+    const [predicate] = spec.predicates;
+    const options: DatabaseRequest = {
+      uri: this.buildUri('/v1/store/get'),
+      method: 'POST',
+      headers: this.headers,
+      json: true,
+      body: isPaged ? { collection, query } : predicate ? { predicate, collection } : { collection },
+    };
+
+    try {
+      const response = await this.request(options, requestOptions);
+      const page = isPaged
+        ? { documents: response.document || [], nextCursor: response.nextCursor || null }
+        : runQuery(withoutExpired(response.document || []), spec);
+      return { options, page };
+    } catch (err) {
+      throw this.toError(err, options);
+    }
+  }
+
+  // Prepare a read's result for the caller: drop expired documents and
+  // decrypt encrypted fields. A single document that has expired is reported
+  // as not found, as if it had already been purged.
+  private readResult(result: any, options: DatabaseRequest): any {
+    const { collection } = options.body;
+    const encryption = this.encryption;
+    if (Array.isArray(result)) {
+      const documents = withoutExpired(result);
+      return encryption
+        ? documents.map(document => encryption.decryptDocument(collection, document))
+        : documents;
+    }
+    if (isExpired(result)) {
+      throw this.toError(statusCodeError(404, { message: 'Document not found' }), options);
+    }
+    return encryption ? encryption.decryptDocument(collection, result) : result;
+  }
+
+  // Encrypt the configured fields of a write body
+  private encryptWrite(collection: string, documentBody: any, write: EncryptedWrite): any {
+    return this.encryption ? this.encryption.encryptWrite(collection, documentBody, write) : documentBody;
+  }
+
+  // The `precondition` field of a write body, if the write has any conditions.
+  // An `ifVersion` that is present but undefined is rejected rather than
+  // dropped: it usually means the document was read without a `_version`,
+  // and dropping it would quietly make the write unconditional.
+  private preconditionFor(
+    collection: string,
+    documentName: string,
+    conditions: WriteConditions,
+  ): { precondition?: any } {
+    const { ifVersion, ifNotExists } = conditions;
+    if ('ifVersion' in conditions && ifVersion === undefined) {
+      throw new ValidationError('ifVersion is undefined; the document has no _version to compare', {
+        collection,
+        documentName,
+      });
+    }
+    if (ifVersion === undefined && !ifNotExists) {
+      return {};
+    }
+
+    this.requireFeature('preconditions', 'Conditional writes need a backend that supports preconditions', {
+      collection,
+      documentName,
+    });
+    return {
+      precondition: {
+        ...(ifVersion !== undefined ? { version: ifVersion } : {}),
+        ...(ifNotExists ? { exists: false } : {}),
+      },
+    };
+  }
+
+  // `documentBody`, once it's known the backend will resolve its value markers
+  // and dotted keys rather than store them as plain data
+  private fieldOperatorsFor(collection: string, documentName: string, documentBody: any): any {
+    Object.keys(documentBody || {}).forEach((key) => {
+      const value = documentBody[key];
+      if (key.indexOf('.') !== -1) {
+        this.requireFeature('fieldOperators', `Nested field ${key} needs a backend that supports field operators`, {
+          collection,
+          documentName,
+        });
+      } else if (isValueMarker(value) && value._updateType !== 'increment') {
+        this.requireFeature('fieldOperators', `${value._updateType} needs a backend that supports field operators`, {
+          collection,
+          documentName,
+        });
+      }
+    });
+    return documentBody;
+  }
+
+  private requireFeature(feature: keyof BackendFeatures, message: string, context: DatabaseErrorContext = {}) {
+    if (!this.supports(feature)) {
+      throw new UnsupportedFeatureError(feature, message, context);
+    }
+  }
+
+  // Fail before sending a read that filters or sorts on an encrypted field
+  private assertQueryable(collection: string, keys: string[]) {
+    const encryption = this.encryption;
+    if (encryption) {
+      keys.forEach(key => encryption.assertQueryable(collection, key));
+    }
+  }
+
+  // Batch a single-document read with others from the same tick, unless the
+  // caller needs its own timeout or abort signal
+  private shouldBatch(requestOptions: RequestOptions): boolean {
+    return !!this.batcher
+      && requestOptions.batch !== false
+      && !requestOptions.signal
+      && requestOptions.timeout === undefined;
+  }
+
+  private getAllRequest(collection: string, documentNames: string[]): DatabaseRequest {
+    return {
+      uri: this.buildUri('/v1/store/getAll'),
+      method: 'POST',
+      headers: this.headers,
+      json: true,
+      body: {
+        collection,
+        documentNames,
+      },
+    };
+  }
+
+  private async fetchAll<T>(
+    collection: string,
+    documentNames: string[],
+    requestOptions: RequestOptions,
+  ): Promise<T[]> {
+    const options = this.getAllRequest(collection, documentNames);
+    try {
+      const response = await this.request(options, requestOptions);
+      return response.results;
+    } catch (err) {
+      throw this.toError(err, options);
+    }
+  }
+
+  private buildUri(path: string): string {
+    return apiUrl(this.config.baseUrl, path);
+  }
+
+  // Wrap a backend failure in the matching `DatabaseError`, annotated with the
+  // endpoint and, for store requests, the collection and document involved
+  private toError(err: any, options: DatabaseRequest): DatabaseError {
+    const body = options.json && options.body ? options.body : {};
+    return toDatabaseError(err, {
+      endpoint: url.parse(String(options.uri)).pathname,
+      collection: body.collection,
+      documentName: body.documentName,
+    });
+  }
+
+  // Wrap a failed commit in a `TransactionError`, pointing at the operation
+  // the service says failed if it told us
+  private toTransactionError(
+    err: any,
+    options: DatabaseRequest,
+    queue: DatabaseRequest[],
+  ): TransactionError {
+    const cause = this.toError(err, options);
+    const context = {
+      cause,
+      statusCode: cause.statusCode,
+      endpoint: cause.endpoint,
+      responseBody: cause.responseBody,
+    };
+
+    const index = cause.responseBody && cause.responseBody.operationIndex;
+    if (typeof index !== 'number' || !queue[index]) {
+      return new TransactionError(context);
+    }
+
+    const operation = describeOperation(queue[index], index);
+    return new TransactionError(
+      {
+        ...context,
+        collection: operation.collection,
+        documentName: operation.documentName,
+      },
+      index,
+      operation.operation,
+    );
+  }
+
+  private request(
+    options: DatabaseRequest,
+    requestOptions: RequestOptions = {},
+    idempotent: boolean = true,
+  ) {
+    if (this.mode === DatabaseAdapterMode.TRANSACTION) {
+      // If we're in a transaction, batch all these requests and send them off
+      // all at once when we commit the transaction.
+      this.transactionQueue.push(options);
+    } else {
+      // Otherwise, send the request immediately and return the result
+      return this.send(options, requestOptions, idempotent);
+    }
+  }
+
+  // Send a request to the backend, applying the timeout, abort signal and
+  // retry policy. Retries only apply to idempotent operations unless the
+  // caller opts in with `retry: true`.
+  private async send(
+    options: DatabaseRequest,
+    requestOptions: RequestOptions,
+    idempotent: boolean,
+  ): Promise<any> {
+    const { signal } = requestOptions;
+    const timeout = requestOptions.timeout !== undefined
+      ? requestOptions.timeout
+      : this.config.timeout;
+    const endpoint = url.parse(String(options.uri)).pathname || '';
+    const body = options.json && options.body ? options.body : {};
+
+    const context: OperationContext = {
+      endpoint,
+      operation: operationName(endpoint, body),
+      collection: body.collection,
+      documentName: body.documentName,
+      body: options.body,
+      headers: options.headers,
+      startedAt: Date.now(),
+      retries: 0,
+    };
+    this.middleware.forEach(middleware => middleware.before && middleware.before(context));
+
+    const attempt = () => withDeadline(
+      this.backend.request({ ...options, timeout }, signal),
+      timeout,
+      signal,
+      { endpoint },
+    );
+
+    const shouldRetry = requestOptions.retry !== undefined ? requestOptions.retry : idempotent;
+
+    try {
+      const response = !this.config.retry || !shouldRetry
+        ? await attempt()
+        : await withRetry(
+          attempt,
+          { ...defaultRetryPolicy, ...this.config.retry },
+          signal,
+          () => {
+            context.retries += 1;
+          },
+        );
+
+      const success = { response, duration: Date.now() - context.startedAt };
+      this.middleware.forEach(middleware => middleware.after && middleware.after(context, success));
+
+      // The service is reachable again, so deliver anything that's waiting
+      this.replayInBackground();
+      return response;
+    } catch (err) {
+      const error = this.toError(err, options);
+      const failure = { error, duration: Date.now() - context.startedAt, statusCode: error.statusCode };
+      this.middleware.forEach(middleware => middleware.error && middleware.error(context, failure));
+      throw err;
+    }
+  }
+}
+
+// A write to a document in a collection that keeps history, with the
+// document as it was before
+interface HistoryChange {
+  operation: HistoryOperation;
+  collection: string;
+  documentName: string;
+  previous: any | null;
+
+  // Undefined when the document has to be read back once it's written
+  current: any | null | undefined;
+}
+
+interface OutboxReplay {
+  report: OutboxFlushReport;
+
+  // Why each dead-lettered write was rejected, by entry id
+  errors: { [id: string]: DatabaseError };
+
+  // The transient error that ended the replay early, if one did
+  stoppedBy?: DatabaseError;
+}
+
+function queuedWriteError({ id, collection, documentName, uri }: OutboxEntry, cause?: DatabaseError): QueuedWriteError {
+  return new QueuedWriteError(id, {
+    collection,
+    documentName,
+    cause,
+    endpoint: url.parse(uri).pathname,
+  });
+}
+
+function outboxEntry(options: DatabaseRequest): OutboxEntry {
+  const body = options.body;
+  return {
+    body,
+    id: body.idempotencyKey,
+    uri: options.uri,
+    operation: operationName(url.parse(options.uri).pathname || '', body),
+    collection: body.collection,
+    documentName: body.documentName,
+    queuedAt: Date.now(),
+    attempts: 0,
+  };
+}
+
+// What a write leaves stored when that follows from the request alone, so
+// history doesn't have to read it back: nothing after a delete, or the body of
+// a set with no value markers or dotted keys. Undefined otherwise.
+function writtenDocument(options: DatabaseRequest): any | null | undefined {
+  const { operation } = describeOperation(options, 0);
+  if (operation === 'delete') {
+    return null;
   }
+  const body = options.body.documentBody;
+  const isLiteral = operation === 'set'
+    && !!body
+    && Object.keys(body).every(key => key.indexOf('.') === -1 && !isValueMarker(body[key]));
+  return isLiteral ? body : undefined;
 }
 
 export interface SignedUploadRequest {
-  url: string,
+  url: string;
   signedRequest: {
-    url: string,
+    url: string;
     fields: {[index: string]: string};
   };
 }
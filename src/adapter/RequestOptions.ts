@@ -0,0 +1,56 @@
+// The subset of the DOM/Node AbortSignal the SDK relies on, so callers can pass
+// either without the SDK depending on DOM typings
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+// Per-call options accepted as the last argument of every adapter method
+export interface RequestOptions {
+  // Milliseconds to wait for each attempt before failing with a TimeoutError.
+  // Overrides `Config.timeout`.
+  timeout?: number;
+
+  // Cancels the request (including any pending retries) when aborted
+  signal?: AbortSignalLike;
+
+  // Force retries on or off for this call. Non-idempotent operations
+  // (`update`, `arrayPush`, ...) are only retried when this is `true`.
+  retry?: boolean;
+
+  // Set to false to skip the read cache and always fetch
+  cache?: boolean;
+
+  // Set to false to send a `get` on its own even when batching is on. Calls
+  // with a `timeout` or `signal` are never batched.
+  batch?: boolean;
+}
+
+// Preconditions for a write. When one doesn't hold, nothing is written and the
+// write fails with a `ConflictError`, even if `throwOnWriteError` is off.
+export interface WriteConditions {
+  // Only write if the document's `_version` (as returned by `get`) is still
+  // this
+  ifVersion?: number;
+
+  // Only write if the document doesn't exist yet
+  ifNotExists?: boolean;
+}
+
+// When a document written with `set` or `update` stops being readable. Expired
+// documents are treated as missing by every read and removed by
+// `purgeExpired`.
+export interface ExpiryOptions {
+  // Milliseconds from now, or a string such as '30s', '15m', '24h' or '7d'
+  expiresIn?: number | string;
+
+  // An absolute time. On `update`, `null` removes an existing expiry.
+  expiresAt?: number | Date | null;
+}
+
+export interface WriteOptions extends RequestOptions, WriteConditions, ExpiryOptions {
+  // Recorded with the write in collections that keep history. Overrides
+  // `Config.history.actor`.
+  actor?: string;
+}
@@ -0,0 +1,11 @@
+// The full URL of an API `path`: under `baseUrl` when one is configured, the
+// local test service when NODE_TEST is set, and the hosted API otherwise
+export function apiUrl(baseUrl: string | undefined, path: string): string {
+  if (baseUrl) {
+    return `${baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+  if (process.env.NODE_TEST) {
+    return `http://localhost:3129${path}`;
+  }
+  return `https://database.api.gokoji.com${path}`;
+}
@@ -0,0 +1,81 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Aggregations', () => {
+  const backend = new MemoryBackend();
+  let queries = 0;
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+    middleware: [{
+      before: ({ operation }) => {
+        if (operation === 'get') {
+          queries += 1;
+        }
+      },
+    }],
+  });
+
+  beforeEach(async () => {
+    backend.reset();
+    queries = 0;
+    await database.setMany('scores', {
+      ada: { level: 1, score: 10, stats: { wins: 2 } },
+      grace: { level: 1, score: 30, stats: { wins: 5 } },
+      alan: { level: 2, score: 25 },
+      edsger: { level: 2, score: 'n/a' },
+      barbara: { score: 5 },
+    });
+  });
+
+  it('should count documents', async () => {
+    expect(await database.count('scores')).to.eq(5);
+    expect(await database.count('scores', { key: 'level', operation: '==', value: 2 })).to.eq(2);
+    expect(await database.count('missing')).to.eq(0);
+  });
+
+  it('should sum, average and find the extremes of a field', async () => {
+    expect(await database.sum('scores', 'score')).to.eq(70);
+    expect(await database.avg('scores', 'score')).to.eq(17.5);
+    expect(await database.min('scores', 'score')).to.eq(5);
+    expect(await database.max('scores', 'score', { key: 'level', operation: '==', value: 1 })).to.eq(30);
+    expect(await database.sum('scores', 'stats.wins')).to.eq(7);
+    expect(await database.avg('scores', 'missingField')).to.be.null;
+    expect(await database.sum('scores', 'missingField')).to.eq(0);
+  });
+
+  it('should read the collection a page at a time', async () => {
+    const values = await database.aggregate('scores', { players: 'count', total: { sum: 'score' } }, undefined, { pageSize: 2 });
+    expect(values).to.deep.equal({ players: 5, total: 70 });
+    expect(queries).to.eq(3);
+
+    queries = 0;
+    expect(await database.count('scores', { key: 'level', operation: '>', value: 0 }, { pageSize: 3 })).to.eq(4);
+    expect(queries).to.eq(2);
+
+    queries = 0;
+    const groups = await database.groupBy('scores', 'level', { players: 'count' }, undefined, { pageSize: 4 });
+    expect(groups.length).to.eq(3);
+    expect(queries).to.eq(2);
+  });
+
+  it('should group by a field', async () => {
+    const groups = await database.groupBy('scores', 'level', {
+      players: 'count',
+      average: { avg: 'score' },
+      best: { max: 'score' },
+    });
+
+    const byLevel: any = {};
+    groups.forEach(({ key, values }) => {
+      byLevel[String(key)] = values;
+    });
+    expect(groups.length).to.eq(3);
+    expect(byLevel['1']).to.deep.equal({ players: 2, average: 20, best: 30 });
+    expect(byLevel['2']).to.deep.equal({ players: 2, average: 25, best: 25 });
+    expect(byLevel['null']).to.deep.equal({ players: 1, average: 5, best: 5 });
+  });
+});
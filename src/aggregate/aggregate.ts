@@ -0,0 +1,173 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { WherePredicate } from '../bulk/bulkWrite';
+import { IterateOptions, WhereOperator } from '../query/Query';
+
+// What to compute over the matching documents. Fields may be dotted paths
+// ('stats.wins'); documents where a field isn't a number are left out of that
+// field's sum, average, minimum and maximum.
+export type Aggregation = 'count' | { sum: string } | { avg: string } | { min: string } | { max: string };
+
+export interface Aggregations {
+  [name: string]: Aggregation;
+}
+
+// `count` and `sum` are always numbers; the rest are null when no document
+// had a number to aggregate
+export type AggregateValues<A extends Aggregations> = {
+  [K in keyof A]: A[K] extends 'count' | { sum: string } ? number : number | null;
+};
+
+export interface GroupResult<A extends Aggregations> {
+  // The grouped field's value, or null for documents without it
+  key: any;
+  values: AggregateValues<A>;
+}
+
+// `pageSize` is passed on to `Query.iterate`
+export type AggregateOptions = IterateOptions;
+
+class Accumulator {
+  private readonly aggregation: Aggregation;
+  private count = 0;
+  private numbers = 0;
+  private sum = 0;
+  private min: number | null = null;
+  private max: number | null = null;
+
+  constructor(aggregation: Aggregation) {
+    this.aggregation = aggregation;
+  }
+
+  public add(document: any) {
+    this.count += 1;
+    if (this.aggregation === 'count') {
+      return;
+    }
+
+    const value = fieldValue(document, fieldOf(this.aggregation));
+    if (typeof value !== 'number' || isNaN(value)) {
+      return;
+    }
+    this.numbers += 1;
+    this.sum += value;
+    this.min = this.min === null ? value : Math.min(this.min, value);
+    this.max = this.max === null ? value : Math.max(this.max, value);
+  }
+
+  public result(): number | null {
+    const aggregation = this.aggregation;
+    if (aggregation === 'count') {
+      return this.count;
+    }
+    if ('sum' in aggregation) {
+      return this.sum;
+    }
+    if ('avg' in aggregation) {
+      return this.numbers > 0 ? this.sum / this.numbers : null;
+    }
+    return 'min' in aggregation ? this.min : this.max;
+  }
+}
+
+// Compute `aggregations` over the documents in `collection` that match
+// `predicate`
+export async function aggregate<A extends Aggregations>(
+  adapter: DatabaseAdapter,
+  collection: string,
+  aggregations: A,
+  predicate?: WherePredicate,
+  options: AggregateOptions = {},
+): Promise<AggregateValues<A>> {
+  const accumulators = accumulatorsFor(aggregations);
+  await forEachDocument(adapter, collection, predicate, options, (document) => {
+    Object.keys(accumulators).forEach(name => accumulators[name].add(document));
+  });
+  return resultsOf(accumulators) as AggregateValues<A>;
+}
+
+// Like `aggregate`, but computed separately for each value of `field`. Groups
+// are returned in the order their first document was read.
+export async function groupBy<A extends Aggregations>(
+  adapter: DatabaseAdapter,
+  collection: string,
+  field: string,
+  aggregations: A,
+  predicate?: WherePredicate,
+  options: AggregateOptions = {},
+): Promise<GroupResult<A>[]> {
+  const groups = new Map<string, { key: any, accumulators: { [name: string]: Accumulator } }>();
+  await forEachDocument(adapter, collection, predicate, options, (document) => {
+    const value = fieldValue(document, field);
+    const key = value === undefined ? null : value;
+    const id = JSON.stringify(key);
+
+    let group = groups.get(id);
+    if (!group) {
+      group = { key, accumulators: accumulatorsFor(aggregations) };
+      groups.set(id, group);
+    }
+    const { accumulators } = group;
+    Object.keys(accumulators).forEach(name => accumulators[name].add(document));
+  });
+
+  const results: GroupResult<A>[] = [];
+  groups.forEach(({ key, accumulators }) => {
+    results.push({ key, values: resultsOf(accumulators) as AggregateValues<A> });
+  });
+  return results;
+}
+
+async function forEachDocument(
+  adapter: DatabaseAdapter,
+  collection: string,
+  predicate: WherePredicate | undefined,
+  options: AggregateOptions,
+  visit: (document: any) => void,
+) {
+  const query = predicate
+    ? adapter.collection(collection).where(predicate.key, predicate.operation as WhereOperator, predicate.value)
+    : adapter.collection(collection);
+  const iterator = query.iterate(options);
+
+  while (true) {
+    const { done, value } = await iterator.next();
+    if (done) {
+      return;
+    }
+    visit(value);
+  }
+}
+
+function accumulatorsFor(aggregations: Aggregations): { [name: string]: Accumulator } {
+  const accumulators: { [name: string]: Accumulator } = {};
+  Object.keys(aggregations).forEach((name) => {
+    accumulators[name] = new Accumulator(aggregations[name]);
+  });
+  return accumulators;
+}
+
+function resultsOf(accumulators: { [name: string]: Accumulator }): { [name: string]: number | null } {
+  const results: { [name: string]: number | null } = {};
+  Object.keys(accumulators).forEach((name) => {
+    results[name] = accumulators[name].result();
+  });
+  return results;
+}
+
+function fieldOf(aggregation: { sum: string } | { avg: string } | { min: string } | { max: string }): string {
+  if ('sum' in aggregation) {
+    return aggregation.sum;
+  }
+  if ('avg' in aggregation) {
+    return aggregation.avg;
+  }
+  return 'min' in aggregation ? aggregation.min : aggregation.max;
+}
+
+// The value at a dotted path, or undefined if any part of it is missing
+function fieldValue(document: any, path: string): any {
+  return path.split('.').reduce(
+    (value, key) => (value !== null && typeof value === 'object' ? value[key] : undefined),
+    document,
+  );
+}
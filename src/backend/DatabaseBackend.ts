@@ -0,0 +1,50 @@
+import { AbortSignalLike } from '../adapter/RequestOptions';
+import { HttpHeaders } from '../transport/HttpTransport';
+import { FormData } from '../transport/multipart';
+
+// A request to the database API, as built by the adapter
+export interface DatabaseRequest {
+  uri: string;
+  method: string;
+  headers: HttpHeaders;
+
+  // When set, `body` is sent as JSON and the response is parsed as JSON.
+  // Otherwise the response body is returned as a string.
+  json?: boolean;
+  body?: any;
+
+  // Sent as multipart/form-data instead of `body`
+  formData?: FormData;
+
+  timeout?: number;
+}
+
+// What a backend does beyond the hosted database API. The adapter rejects a
+// write that needs a feature its backend doesn't declare, rather than send
+// something the service would ignore or store as plain data.
+export interface BackendFeatures {
+  // Documents carry a `_version` that changes on each write, and writes honour
+  // `ifVersion` and `ifNotExists`
+  preconditions?: boolean;
+
+  // Write bodies may use every `valueTypes` marker and dotted keys for nested
+  // fields. Without this, `increment` (and `decrement`) is the only marker.
+  fieldOperators?: boolean;
+
+  // A `/v1/store/get` of a collection with a `query` (a `QuerySpec` without
+  // its `collection`) answers with one page of it: the matching, unexpired
+  // documents in order, at most `limit` of them, and the `nextCursor`
+  paging?: boolean;
+}
+
+// A backend receives the fully-formed request the adapter would otherwise send
+// over the network and resolves with the parsed response body. Failures should
+// reject with an error carrying a `statusCode` (see `statusCodeError`), so the
+// adapter can handle every backend identically. Backends that can cancel
+// in-flight work should do so when `signal` aborts.
+export interface DatabaseBackend {
+  // Defaults to none, as for the hosted API
+  readonly features?: BackendFeatures;
+
+  request(options: DatabaseRequest, signal?: AbortSignalLike): Promise<any>;
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { NotFoundError } from '../errors/DatabaseError';
+import { FetchTransport } from '../transport/FetchTransport';
+import { HttpRequest, HttpTransport } from '../transport/HttpTransport';
+import { NodeHttpTransport } from '../transport/NodeHttpTransport';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('HTTP backend', () => {
+  const config = {
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  };
+
+  it('should send requests through an injected transport', async () => {
+    const sent: HttpRequest[] = [];
+    const transport: HttpTransport = {
+      send: async (request) => {
+        sent.push(request);
+        return { statusCode: 200, headers: {}, body: JSON.stringify({ document: { ok: true } }) };
+      },
+    };
+
+    const database = new DatabaseAdapter({ ...config, transport, baseUrl: 'https://staging.example.com/' });
+    const document: any = await database.get('TEST_COLLECTION', 'TEST_DOCUMENT');
+
+    expect(document.ok).to.be.true;
+    expect(sent[0].url).to.eq('https://staging.example.com/v1/store/get');
+    expect(sent[0].method).to.eq('POST');
+    expect(sent[0].headers['X-Koji-Project-Token']).to.eq('test-token');
+    expect(JSON.parse(sent[0].body as string)).to.deep.equal({
+      collection: 'TEST_COLLECTION',
+      documentName: 'TEST_DOCUMENT',
+    });
+  });
+
+  it('should turn error responses into typed errors', async () => {
+    const transport: HttpTransport = {
+      send: async () => ({ statusCode: 404, headers: {}, body: JSON.stringify({ message: 'missing' }) }),
+    };
+
+    const database = new DatabaseAdapter({ ...config, transport });
+    try {
+      await database.get('TEST_COLLECTION', 'TEST_DOCUMENT');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(NotFoundError);
+      expect(err.responseBody).to.deep.equal({ message: 'missing' });
+    }
+  });
+
+  describe('against a server', () => {
+    let received: { url?: string, headers: http.IncomingHttpHeaders, body: string }[] = [];
+    let server: http.Server;
+    let baseUrl: string;
+
+    before(() => new Promise((resolve) => {
+      server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          received.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(req.url === '/v1/objectStore/upload'
+            ? { url: 'https://objects.example.com/file.txt' }
+            : { collections: ['TEST_COLLECTION'] }));
+        });
+      });
+      server.listen(0, () => {
+        baseUrl = `http://localhost:${(server.address() as any).port}`;
+        resolve();
+      });
+    }));
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    after(() => new Promise(resolve => server.close(resolve)));
+
+    it('should send JSON with the Node transport', async () => {
+      const database = new DatabaseAdapter({ ...config, baseUrl, transport: new NodeHttpTransport() });
+      expect(await database.getCollections()).to.deep.equal(['TEST_COLLECTION']);
+      expect(received[0].headers['content-type']).to.eq('application/json');
+    });
+
+    it('should upload multipart bodies with the Node transport', async () => {
+      const filePath = path.join(os.tmpdir(), `koji-upload-${process.pid}.txt`);
+      fs.writeFileSync(filePath, 'hello world');
+      try {
+        const database = new DatabaseAdapter({ ...config, baseUrl });
+        const url = await database.uploadFile(filePath, 'file.txt', 'text/plain');
+
+        expect(url).to.eq('https://objects.example.com/file.txt');
+        expect(received[0].headers['content-type']).to.match(/^multipart\/form-data; boundary=/);
+        expect(received[0].body).to.contain('filename="file.txt"');
+        expect(received[0].body).to.contain('Content-Type: text/plain');
+        expect(received[0].body).to.contain('hello world');
+      } finally {
+        fs.unlinkSync(filePath);
+      }
+    });
+
+    it('should send JSON with the fetch transport', async function () {
+      if (!(global as any).fetch) {
+        this.skip();
+      }
+
+      const database = new DatabaseAdapter({ ...config, baseUrl, transport: new FetchTransport() });
+      expect(await database.getCollections()).to.deep.equal(['TEST_COLLECTION']);
+      expect(received[0].url).to.eq('/v1/store/getCollections');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { AbortSignalLike } from '../adapter/RequestOptions';
+import { HttpTransport } from '../transport/HttpTransport';
+import { encodeMultipart } from '../transport/multipart';
+import { NodeHttpTransport } from '../transport/NodeHttpTransport';
+import { BackendFeatures, DatabaseBackend, DatabaseRequest } from './DatabaseBackend';
+import { statusCodeError } from './statusCodeError';
+
+// Default backend: sends every request to the database API over HTTP, through
+// `transport` (Node's http/https modules unless another is given). The hosted
+// API has none of the optional `features`; pass them for a self-hosted
+// instance that does.
+export class HttpBackend implements DatabaseBackend {
+  public readonly features: BackendFeatures;
+  private readonly transport: HttpTransport;
+
+  constructor(transport: HttpTransport = new NodeHttpTransport(), features: BackendFeatures = {}) {
+    this.transport = transport;
+    this.features = features;
+  }
+
+  public async request(options: DatabaseRequest, signal?: AbortSignalLike): Promise<any> {
+    const headers = { ...options.headers };
+    let body: string | NodeJS.ReadableStream | undefined;
+
+    if (options.formData) {
+      const multipart = encodeMultipart(options.formData);
+      body = multipart.body;
+      headers['Content-Type'] = multipart.contentType;
+    } else if (options.json) {
+      headers['Content-Type'] = 'application/json';
+      headers['Accept'] = 'application/json';
+      body = options.body === undefined ? undefined : JSON.stringify(options.body);
+    } else if (options.body !== undefined) {
+      body = String(options.body);
+    }
+
+    const response = await this.transport.send(
+      {
+        headers,
+        body,
+        url: options.uri,
+        method: options.method,
+        timeout: options.timeout,
+      },
+      signal,
+    );
+
+    const responseBody = options.json ? parseJson(response.body) : response.body;
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw statusCodeError(response.statusCode, responseBody, response.headers);
+    }
+    return responseBody;
+  }
+}
+
+// Fall back to the raw text for bodies that aren't JSON, e.g. proxy error pages
+function parseJson(body: string): any {
+  if (body === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch (err) {
+    return body;
+  }
+}
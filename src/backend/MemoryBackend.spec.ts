@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { UnsupportedFeatureError } from '../errors/DatabaseError';
+import { HttpTransport } from '../transport/HttpTransport';
+import { HttpBackend } from './HttpBackend';
+import { MemoryBackend } from './MemoryBackend';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Memory backend', () => {
+  const testCollectionName = 'TEST_COLLECTION';
+  const testDocumentName = 'TEST_DOCUMENT';
+
+  const testDocument = {
+    stringKey: 'testValue',
+    numericKey: 100,
+    booleanKey: true,
+    arrayKey: ['one', 'two', 'three'],
+  };
+
+  const backend = new MemoryBackend();
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  });
+
+  beforeEach(async () => {
+    backend.reset();
+    await database.set(testCollectionName, testDocumentName, testDocument);
+  });
+
+  it('should throw if a document does not exist', async () => {
+    try {
+      await database.get(testCollectionName, 'MISSING');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err.message).to.eq('Document not found');
+    }
+  });
+
+  it('should read a document', async () => {
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document._id).to.eq(testDocumentName);
+    expect(document._version).to.be.a('number');
+    delete document._id;
+    delete document._version;
+    expect(document).to.deep.equal(testDocument);
+  });
+
+  it('should not share references with the store', async () => {
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    document.arrayKey.push('four');
+
+    const reread: any = await database.get(testCollectionName, testDocumentName);
+    expect(reread.arrayKey.length).to.eq(3);
+  });
+
+  it('should list all collections for project', async () => {
+    const collections = await database.getCollections();
+    expect(collections).to.deep.equal([testCollectionName]);
+  });
+
+  it('should search', async () => {
+    const results: any = await database.search(testCollectionName, 'stringKey', 'TEST');
+    expect(results.length).to.eq(1);
+    expect(results[0]._id).to.eq(testDocumentName);
+  });
+
+  it('should read documents with predicates', async () => {
+    const matching: any = await database.getWhere(testCollectionName, 'numericKey', '>=', 100 as any);
+    expect(matching.length).to.eq(1);
+
+    const notMatching: any = await database.getWhere(testCollectionName, 'numericKey', '<', 100 as any);
+    expect(notMatching.length).to.eq(0);
+
+    const any: any = await database.getAllWhere(testCollectionName, 'stringKey', '=', ['nope', 'testValue']);
+    expect(any.length).to.eq(1);
+  });
+
+  it('should read multiple documents', async () => {
+    const documents: any = await database.getAll(testCollectionName, [testDocumentName, 'MISSING']);
+    expect(documents.length).to.eq(1);
+    expect(documents[0]._id).to.eq(testDocumentName);
+  });
+
+  it('should update and increment', async () => {
+    await database.update(testCollectionName, testDocumentName, {
+      stringKey: 'newValue',
+      numericKey: DatabaseAdapter.valueTypes.increment(4),
+    });
+
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.stringKey).to.eq('newValue');
+    expect(document.numericKey).to.eq(104);
+    expect(document.booleanKey).to.be.true;
+  });
+
+  it('should combine update operators in one write', async () => {
+    const { valueTypes } = DatabaseAdapter;
+    await database.update(testCollectionName, testDocumentName, {
+      numericKey: valueTypes.decrement(10),
+      booleanKey: valueTypes.delete(),
+      arrayKey: valueTypes.arrayUnion('three', 'four'),
+      'stats.wins': valueTypes.increment(1),
+      'stats.best': valueTypes.max(7),
+      'stats.firstSeen': valueTypes.setIfAbsent('today'),
+      updatedAt: valueTypes.serverTimestamp(),
+    });
+    await database.update(testCollectionName, testDocumentName, {
+      numericKey: valueTypes.multiply(2),
+      arrayKey: valueTypes.arrayRemove('one', 'two'),
+      'stats.best': valueTypes.min(5),
+      'stats.firstSeen': valueTypes.setIfAbsent('tomorrow'),
+    });
+
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.numericKey).to.eq(180);
+    expect(document).to.not.have.property('booleanKey');
+    expect(document.arrayKey).to.deep.equal(['three', 'four']);
+    expect(document.stats).to.deep.equal({ wins: 1, best: 5, firstSeen: 'today' });
+    expect(document.updatedAt).to.be.a('number');
+  });
+
+  it('should refuse update operators the HTTP backend would store as data', async () => {
+    const { valueTypes } = DatabaseAdapter;
+    const sent: any[] = [];
+    const transport: HttpTransport = {
+      send: async (request) => {
+        sent.push(JSON.parse(String(request.body)));
+        return { statusCode: 200, headers: {}, body: '{}' };
+      },
+    };
+    const remote = new DatabaseAdapter({
+      backend: new HttpBackend(transport),
+      projectId: 'test-project',
+      projectToken: 'test-token',
+    });
+
+    for (const documentBody of [{ best: valueTypes.max(7) }, { 'stats.wins': 1 }]) {
+      try {
+        await remote.update(testCollectionName, testDocumentName, documentBody);
+        throw new Error('expected update to throw');
+      } catch (err) {
+        expect(err).to.be.instanceOf(UnsupportedFeatureError);
+        expect(err.feature).to.eq('fieldOperators');
+      }
+    }
+    expect(sent).to.deep.equal([]);
+
+    await remote.update(testCollectionName, testDocumentName, { numericKey: valueTypes.decrement(1) });
+    expect(sent[0].documentBody).to.deep.equal({ numericKey: { _updateType: 'increment', value: -1 } });
+  });
+
+  it('should leave a document alone when an update fails partway', async () => {
+    const success = await database.update(testCollectionName, testDocumentName, {
+      stringKey: 'newValue',
+      numericKey: { _updateType: 'unknown', value: 1 },
+    });
+    expect(success).to.be.false;
+
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.stringKey).to.eq('testValue');
+    expect(document.numericKey).to.eq(100);
+  });
+
+  it('should fail to update a document that does not exist', async () => {
+    const success = await database.update(testCollectionName, 'MISSING', { stringKey: 'newValue' });
+    expect(success).to.be.false;
+  });
+
+  it('should push to and remove from arrays', async () => {
+    await database.arrayPush(testCollectionName, testDocumentName, { arrayKey: 'four' });
+    let document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.arrayKey).to.deep.equal(['one', 'two', 'three', 'four']);
+
+    await database.arrayRemove(testCollectionName, testDocumentName, { arrayKey: 'two' });
+    document = await database.get(testCollectionName, testDocumentName);
+    expect(document.arrayKey).to.deep.equal(['one', 'three', 'four']);
+  });
+
+  it('should delete a document', async () => {
+    const success = await database.delete(testCollectionName, testDocumentName);
+    expect(success).to.be.true;
+
+    const documents: any = await database.getAll(testCollectionName, [testDocumentName]);
+    expect(documents.length).to.eq(0);
+  });
+
+  it('should complete a transaction', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'SECOND_DOCUMENT', testDocument);
+    await transaction.update(testCollectionName, 'SECOND_DOCUMENT', {
+      stringKey: 'newValue',
+      'nested.count': DatabaseAdapter.valueTypes.increment(2),
+    });
+    await transaction.commitTransaction();
+
+    const document: any = await database.get(testCollectionName, 'SECOND_DOCUMENT');
+    expect(document.stringKey).to.eq('newValue');
+    expect(document.nested.count).to.eq(2);
+  });
+
+  it('should roll back a failed transaction', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'SECOND_DOCUMENT', testDocument);
+    await transaction.update(testCollectionName, 'MISSING', { stringKey: 'newValue' });
+
+    try {
+      await transaction.commitTransaction();
+      throw new Error('expected commit to throw');
+    } catch (err) {
+      expect(err.statusCode).to.eq(404);
+    }
+
+    const documents: any = await database.getAll(testCollectionName, ['SECOND_DOCUMENT']);
+    expect(documents.length).to.eq(0);
+  });
+
+  it('should persist to a JSON file', async () => {
+    const filePath = path.join(os.tmpdir(), `koji-database-${process.pid}.json`);
+    try {
+      const persisted = new DatabaseAdapter({
+        projectId: 'test-project',
+        projectToken: 'test-token',
+        backend: new MemoryBackend({ filePath }),
+      });
+      await persisted.set(testCollectionName, testDocumentName, testDocument);
+
+      const reopened = new DatabaseAdapter({
+        projectId: 'test-project',
+        projectToken: 'test-token',
+        backend: new MemoryBackend({ filePath }),
+      });
+      const document: any = await reopened.get(testCollectionName, testDocumentName);
+      expect(document.stringKey).to.eq(testDocument.stringKey);
+    } finally {
+      fs.unlinkSync(filePath);
+    }
+  });
+});
@@ -0,0 +1,436 @@
+import * as fs from 'fs';
+import * as url from 'url';
+
+import { withoutExpired } from '../expiry/expiry';
+import { QueryPage } from '../query/Query';
+import { runQuery } from '../query/runQuery';
+import { ValueMarker, isValueMarker } from '../values/valueTypes';
+import { writeFileAtomic } from '../files/writeFileAtomic';
+import { BackendFeatures, DatabaseBackend, DatabaseRequest } from './DatabaseBackend';
+import { statusCodeError } from './statusCodeError';
+
+export interface MemoryBackendOptions {
+  // When set, the store is loaded from this JSON file on construction and
+  // written back to it after every successful write.
+  filePath?: string;
+}
+
+interface StoreCollection {
+  [documentName: string]: any;
+}
+
+interface Store {
+  [collection: string]: StoreCollection;
+}
+
+// An in-process stand-in for the database API. It answers the same endpoints
+// with the same response shapes, so a `DatabaseAdapter` configured with this
+// backend behaves like one talking to the real service, without any network.
+export class MemoryBackend implements DatabaseBackend {
+  public readonly features: BackendFeatures = { preconditions: true, fieldOperators: true, paging: true };
+
+  private readonly filePath?: string;
+  private store: Store = {};
+
+  // The last `_version` given to a document. Versions are never reused, so a
+  // document that is deleted and recreated can't match an old version.
+  private version = 0;
+
+  // Responses to recent writes that carried an `idempotencyKey`, so a write
+  // sent again with the same key is answered without being applied twice
+  private idempotentResponses = new Map<string, any>();
+
+  constructor(options: MemoryBackendOptions = {}) {
+    this.filePath = options.filePath;
+
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      this.store = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      Object.keys(this.store).forEach(collection => Object.keys(this.store[collection]).forEach((name) => {
+        this.version = Math.max(this.version, this.store[collection][name]._version || 0);
+      }));
+    }
+  }
+
+  public async request(options: DatabaseRequest): Promise<any> {
+    const path = url.parse(String(options.uri)).pathname || '';
+    const body = options.body || {};
+    const key = isWriteEndpoint(path) ? body.idempotencyKey : undefined;
+    if (key && this.idempotentResponses.has(key)) {
+      return clone(this.idempotentResponses.get(key));
+    }
+
+    const response = this.handle(path, body);
+
+    if (isWriteEndpoint(path)) {
+      this.persist();
+    }
+    if (key) {
+      this.rememberResponse(key, response);
+    }
+
+    return clone(response);
+  }
+
+  // Drop every collection, e.g. between tests
+  public reset() {
+    this.store = {};
+    this.idempotentResponses.clear();
+    this.persist();
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Endpoints
+  //////////////////////////////////////////////////////////////////////////////
+  private handle(path: string, body: any): any {
+    switch (path) {
+      case '/v1/store/get':
+        return this.get(body);
+      case '/v1/store/getCollections':
+        return { collections: Object.keys(this.store) };
+      case '/v1/store/search':
+        return this.search(body);
+      case '/v1/store/getAll':
+        return this.getAll(body);
+      case '/v1/store/getAllWhere':
+        return this.getAllWhere(body);
+      case '/v1/store/set':
+        return this.set(body);
+      case '/v1/store/update':
+        return this.update(body);
+      case '/v1/store/update/push':
+        return this.arrayPush(body);
+      case '/v1/store/update/remove':
+        return this.arrayRemove(body);
+      case '/v1/store/delete':
+        return this.delete(body);
+      case '/v1/store/transaction':
+        return this.transaction(body);
+      default:
+        throw statusCodeError(404, { message: `Unsupported endpoint: ${path}` });
+    }
+  }
+
+  private get({ collection, documentName, predicate, query }: any) {
+    if (query) {
+      const { documents, nextCursor } = this.page(collection, query);
+      return { nextCursor, document: documents };
+    }
+    if (predicate) {
+      return {
+        document: this.documents(collection)
+          .filter(doc => matches(doc[predicate.key], predicate.operation, predicate.value)),
+      };
+    }
+
+    if (documentName === undefined || documentName === null) {
+      return { document: this.documents(collection) };
+    }
+
+    const document = this.find(collection, documentName);
+    if (!document) {
+      throw statusCodeError(404, { message: 'Document not found' });
+    }
+    return { document };
+  }
+
+  private page(collection: string, query: any): QueryPage<any> {
+    try {
+      return runQuery(withoutExpired(this.documents(collection)), { collection, ...query });
+    } catch (err) {
+      throw statusCodeError(400, { message: err.message });
+    }
+  }
+
+  private search({ collection, queryKey, queryValue }: any) {
+    const needle = String(queryValue).toLowerCase();
+    return {
+      results: this.documents(collection).filter((doc) => {
+        const value = doc[queryKey];
+        return value !== undefined
+          && value !== null
+          && String(value).toLowerCase().indexOf(needle) !== -1;
+      }),
+    };
+  }
+
+  private getAll({ collection, documentNames }: any) {
+    return {
+      results: (documentNames as string[])
+        .map(documentName => this.find(collection, documentName))
+        .filter(doc => !!doc),
+    };
+  }
+
+  private getAllWhere({ collection, predicateKey, predicateOperation, predicateValues }: any) {
+    return {
+      results: this.documents(collection).filter(doc => (predicateValues as any[])
+        .some(value => matches(doc[predicateKey], predicateOperation, value))),
+    };
+  }
+
+  private set({ collection, documentName, documentBody, precondition }: any) {
+    this.checkPrecondition(collection, documentName, precondition);
+    const existing = this.collection(collection)[documentName] || {};
+    this.collection(collection)[documentName] = this.stamp(applyFields({}, existing, withoutVersion(documentBody)));
+    return { success: true };
+  }
+
+  private update({ collection, documentName, documentBody, precondition }: any) {
+    this.checkPrecondition(collection, documentName, precondition);
+    // Applied to a copy, so an update that fails partway leaves the stored
+    // document as it was
+    const updated = clone(this.require(collection, documentName));
+    this.collection(collection)[documentName] = this.stamp(
+      applyFields(updated, updated, withoutVersion(documentBody)),
+    );
+    return { success: true };
+  }
+
+  private arrayPush({ collection, documentName, documentBody, precondition }: any) {
+    this.checkPrecondition(collection, documentName, precondition);
+    const existing = this.require(collection, documentName);
+    Object.keys(documentBody).forEach((key) => {
+      existing[key] = (Array.isArray(existing[key]) ? existing[key] : []).concat([documentBody[key]]);
+    });
+    this.stamp(existing);
+    return { success: true };
+  }
+
+  private arrayRemove({ collection, documentName, documentBody, precondition }: any) {
+    this.checkPrecondition(collection, documentName, precondition);
+    const existing = this.require(collection, documentName);
+    Object.keys(documentBody).forEach((key) => {
+      if (Array.isArray(existing[key])) {
+        existing[key] = existing[key].filter((item: any) => !isEqual(item, documentBody[key]));
+      }
+    });
+    this.stamp(existing);
+    return { success: true };
+  }
+
+  private delete({ collection, documentName, precondition }: any) {
+    this.checkPrecondition(collection, documentName, precondition);
+    if (this.store[collection]) {
+      delete this.store[collection][documentName];
+    }
+    return { success: true };
+  }
+
+  // Operations in a transaction are applied in order against the live store;
+  // if any of them fails the store is restored to its previous state and the
+  // error reports the index of the failing operation.
+  private transaction({ operations }: any) {
+    const snapshot = clone(this.store);
+    const results = (operations as any[]).map(({ uri, body }, operationIndex) => {
+      const path = url.parse(String(uri)).pathname || '';
+      try {
+        if (!isWriteEndpoint(path) || path === '/v1/store/transaction') {
+          throw statusCodeError(400, { message: `Operation not allowed in a transaction: ${path}` });
+        }
+        return this.handle(path, body || {});
+      } catch (err) {
+        this.store = snapshot;
+        err.error = { ...err.error, operationIndex };
+        throw err;
+      }
+    });
+    return { results, success: true };
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Helpers
+  //////////////////////////////////////////////////////////////////////////////
+  private collection(collection: string): StoreCollection {
+    if (!this.store[collection]) {
+      this.store[collection] = {};
+    }
+    return this.store[collection];
+  }
+
+  private find(collection: string, documentName: string): any {
+    const documents = this.store[collection] || {};
+    if (!Object.prototype.hasOwnProperty.call(documents, documentName)) {
+      return null;
+    }
+    return { ...documents[documentName], _id: documentName };
+  }
+
+  // Reject a conditional write with a 409 when its precondition doesn't hold
+  private checkPrecondition(collection: string, documentName: string, precondition: any) {
+    if (!precondition) {
+      return;
+    }
+
+    const current = this.find(collection, documentName);
+    const currentVersion = current ? current._version : undefined;
+    if (precondition.exists === false && current) {
+      throw statusCodeError(409, { currentVersion, message: 'Document already exists' });
+    }
+    if (precondition.version !== undefined && (!current || currentVersion !== precondition.version)) {
+      throw statusCodeError(409, { currentVersion, message: 'Document version does not match' });
+    }
+  }
+
+  private stamp(document: any): any {
+    this.version += 1;
+    document._version = this.version;
+    return document;
+  }
+
+  private require(collection: string, documentName: string): any {
+    const documents = this.store[collection] || {};
+    if (!Object.prototype.hasOwnProperty.call(documents, documentName)) {
+      throw statusCodeError(404, { message: 'Document not found' });
+    }
+    return documents[documentName];
+  }
+
+  private documents(collection: string): any[] {
+    return Object.keys(this.store[collection] || {})
+      .map(documentName => this.find(collection, documentName));
+  }
+
+  private rememberResponse(key: string, response: any) {
+    this.idempotentResponses.set(key, clone(response));
+    if (this.idempotentResponses.size > maxIdempotencyKeys) {
+      this.idempotentResponses.delete(this.idempotentResponses.keys().next().value);
+    }
+  }
+
+  private persist() {
+    if (!this.filePath) {
+      return;
+    }
+
+    writeFileAtomic(this.filePath, JSON.stringify(this.store));
+  }
+}
+
+const maxIdempotencyKeys = 10000;
+
+function isWriteEndpoint(path: string): boolean {
+  return [
+    '/v1/store/set',
+    '/v1/store/update',
+    '/v1/store/update/push',
+    '/v1/store/update/remove',
+    '/v1/store/delete',
+    '/v1/store/transaction',
+  ].indexOf(path) !== -1;
+}
+
+// `_version` is managed by the store, so a document that was read, changed
+// and written back doesn't carry its old version
+function withoutVersion(body: any): any {
+  if (!body || body._version === undefined) {
+    return body;
+  }
+  const { _version, ...rest } = body;
+  return rest;
+}
+
+// Copy `body` onto `target`, resolving update markers (see `valueTypes`)
+// against the values in `existing`. Dotted keys address nested fields.
+function applyFields(target: any, existing: any, body: any): any {
+  Object.keys(body || {}).forEach((key) => {
+    const path = key.split('.');
+    const value = body[key];
+
+    if (!isValueMarker(value)) {
+      setPath(target, path, clone(value));
+    } else if (value._updateType === 'delete') {
+      deletePath(target, path);
+    } else {
+      setPath(target, path, applyMarker(getPath(existing, path), value));
+    }
+  });
+  return target;
+}
+
+function applyMarker(current: any, marker: ValueMarker): any {
+  const isMissing = current === undefined || current === null;
+  switch (marker._updateType) {
+    case 'increment':
+      return (Number(current) || 0) + marker.value;
+    case 'multiply':
+      return (Number(current) || 0) * marker.value;
+    case 'min':
+      return isMissing ? marker.value : Math.min(current, marker.value);
+    case 'max':
+      return isMissing ? marker.value : Math.max(current, marker.value);
+    case 'setIfAbsent':
+      return isMissing ? clone(marker.value) : current;
+    case 'serverTimestamp':
+      return Date.now();
+    case 'arrayUnion': {
+      const result = Array.isArray(current) ? current.slice() : [];
+      (marker.value as any[]).forEach((item) => {
+        if (!result.some(existing => isEqual(existing, item))) {
+          result.push(clone(item));
+        }
+      });
+      return result;
+    }
+    case 'arrayRemove':
+      return (Array.isArray(current) ? current : [])
+        .filter(existing => !(marker.value as any[]).some(item => isEqual(existing, item)));
+    default:
+      throw statusCodeError(400, { message: `Unsupported update type: ${marker._updateType}` });
+  }
+}
+
+function getPath(target: any, path: string[]): any {
+  return path.reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), target);
+}
+
+function setPath(target: any, path: string[], value: any) {
+  const parent = path.slice(0, -1).reduce(
+    (object, key) => {
+      if (!object[key] || typeof object[key] !== 'object' || Array.isArray(object[key])) {
+        object[key] = {};
+      }
+      return object[key];
+    },
+    target,
+  );
+  parent[path[path.length - 1]] = value;
+}
+
+function deletePath(target: any, path: string[]) {
+  const parent = getPath(target, path.slice(0, -1));
+  if (parent && typeof parent === 'object') {
+    delete parent[path[path.length - 1]];
+  }
+}
+
+function matches(value: any, operation: string, target: any): boolean {
+  switch (operation) {
+    case '=':
+    case '==':
+      return isEqual(value, target);
+    case '!=':
+      return !isEqual(value, target);
+    case '<':
+      return value < target;
+    case '<=':
+      return value <= target;
+    case '>':
+      return value > target;
+    case '>=':
+      return value >= target;
+    case 'array-contains':
+      return Array.isArray(value) && value.some(item => isEqual(item, target));
+    case 'in':
+      return Array.isArray(target) && target.some(item => isEqual(value, item));
+    default:
+      throw statusCodeError(400, { message: `Unsupported predicate operation: ${operation}` });
+  }
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,18 @@
+// An error for a non-2xx response, in the shape `toDatabaseError` understands
+// (the same shape request-promise used for its StatusCodeError)
+export function statusCodeError(
+  statusCode: number,
+  body: any,
+  headers: { [name: string]: any } = {},
+): Error {
+  const message = body && typeof body === 'object' && body.message
+    ? body.message
+    : typeof body === 'string' ? body : '';
+
+  const error: any = new Error(`${statusCode} - ${message}`);
+  error.name = 'StatusCodeError';
+  error.statusCode = statusCode;
+  error.error = body;
+  error.response = { statusCode, headers };
+  return error;
+}
@@ -0,0 +1,47 @@
+import { PassThrough } from 'stream';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { ExportProgress } from './exportCollections';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Export', () => {
+  const database = new DatabaseAdapter({
+    backend: new MemoryBackend(),
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  });
+
+  before(async () => {
+    await database.setMany('scores', { a: { score: 1 }, b: { score: 2 }, c: { score: 3 } });
+    await database.set('settings', 'theme', { color: 'red' });
+  });
+
+  function collect(stream: PassThrough): string[] {
+    const text = stream.read();
+    return text ? String(text).trim().split('\n') : [];
+  }
+
+  it('should write one line per document', async () => {
+    const stream = new PassThrough();
+    const report = await database.exportCollections(stream);
+
+    const lines = collect(stream).map(line => JSON.parse(line));
+    expect(report).to.deep.equal({ collections: { scores: 3, settings: 1 }, documents: 4 });
+    expect(lines.length).to.eq(4);
+    expect(lines).to.deep.include({ collection: 'settings', documentName: 'theme', documentBody: { color: 'red' } });
+  });
+
+  it('should export chosen collections a page at a time', async () => {
+    const stream = new PassThrough();
+    const progress: ExportProgress[] = [];
+    await database.exportCollections(stream, {
+      collections: ['scores'],
+      pageSize: 2,
+      onProgress: update => progress.push(update),
+    });
+
+    expect(collect(stream).length).to.eq(3);
+    expect(progress.map(({ documents }) => documents)).to.deep.equal([2, 3]);
+  });
+});
@@ -0,0 +1,82 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { RequestOptions } from '../adapter/RequestOptions';
+
+// One line of an export
+export interface ExportedDocument {
+  collection: string;
+  documentName: string;
+  documentBody: any;
+}
+
+export interface ExportProgress {
+  collection: string;
+
+  // Documents written so far, from this collection and in total
+  collectionDocuments: number;
+  documents: number;
+}
+
+export interface ExportOptions extends RequestOptions {
+  // Defaults to every collection in the project
+  collections?: string[];
+
+  // Documents written to the stream at a time
+  pageSize?: number;
+
+  // Called after each page is written
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface ExportReport {
+  // Documents exported per collection
+  collections: { [collection: string]: number };
+  documents: number;
+}
+
+// Write every document in the chosen collections to `stream` as NDJSON, one
+// `ExportedDocument` per line. `readCollection` resolves with a collection's
+// documents as stored, so encrypted fields stay encrypted in the export. The
+// stream is left open.
+export async function exportCollections(
+  adapter: DatabaseAdapter,
+  stream: NodeJS.WritableStream,
+  options: ExportOptions,
+  readCollection: (collection: string) => Promise<any[]>,
+): Promise<ExportReport> {
+  const collections = options.collections || await adapter.getCollections<string[]>(options);
+  const pageSize = options.pageSize || 100;
+  const report: ExportReport = { collections: {}, documents: 0 };
+
+  for (const collection of collections) {
+    report.collections[collection] = 0;
+
+    const documents = await readCollection(collection);
+    for (let start = 0; start < documents.length; start += pageSize) {
+      const lines = documents.slice(start, start + pageSize).map(document => toLine(collection, document));
+
+      // Write a page at a time, waiting for the stream to drain when asked
+      if (!stream.write(lines.join(''))) {
+        await new Promise(resolve => stream.once('drain', resolve));
+      }
+      report.collections[collection] += lines.length;
+      report.documents += lines.length;
+
+      if (options.onProgress) {
+        options.onProgress({
+          collection,
+          collectionDocuments: report.collections[collection],
+          documents: report.documents,
+        });
+      }
+    }
+  }
+
+  return report;
+}
+
+function toLine(collection: string, document: any): string {
+  const { _id, _version, ...documentBody } = document;
+  const documentName = String(_id);
+  const line: ExportedDocument = { collection, documentName, documentBody };
+  return `${JSON.stringify(line)}\n`;
+}
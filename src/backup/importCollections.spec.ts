@@ -0,0 +1,87 @@
+import { PassThrough } from 'stream';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { ImportReport } from './importCollections';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Import', () => {
+  let database: DatabaseAdapter;
+
+  beforeEach(async () => {
+    database = new DatabaseAdapter({
+      backend: new MemoryBackend(),
+      projectId: 'test-project',
+      projectToken: 'test-token',
+    });
+    await database.set('scores', 'a', { score: 1, name: 'Ada' });
+  });
+
+  function input(...documents: any[]): PassThrough {
+    const stream = new PassThrough();
+    stream.end(documents.map(document => JSON.stringify(document)).join('\n'));
+    return stream;
+  }
+
+  const fixture = [
+    { collection: 'scores', documentName: 'a', documentBody: { score: 10 } },
+    { collection: 'scores', documentName: 'b', documentBody: { score: 20 } },
+  ];
+
+  it('should overwrite existing documents', async () => {
+    const report = await database.importCollections(input(...fixture));
+    expect(report).to.include({ documents: 2, written: 2, skipped: 0, failed: 0 });
+
+    const { _version, ...a }: any = await database.get('scores', 'a');
+    expect(a).to.deep.equal({ _id: 'a', score: 10 });
+  });
+
+  it('should skip existing documents', async () => {
+    const report = await database.importCollections(input(...fixture), { mode: 'skip-existing' });
+    expect(report).to.include({ written: 1, skipped: 1 });
+
+    const a: any = await database.get('scores', 'a');
+    expect(a.score).to.eq(1);
+  });
+
+  it('should merge into existing documents', async () => {
+    await database.importCollections(input(...fixture), { mode: 'merge' });
+
+    const { _version, ...a }: any = await database.get('scores', 'a');
+    expect(a).to.deep.equal({ _id: 'a', score: 10, name: 'Ada' });
+  });
+
+  it('should write nothing on a dry run', async () => {
+    const report = await database.importCollections(input(...fixture), { dryRun: true });
+    expect(report.written).to.eq(2);
+
+    const documents: any[] = await database.getAll('scores', ['a', 'b']);
+    expect(documents.length).to.eq(1);
+  });
+
+  it('should import in batches and report progress', async () => {
+    const documents = [];
+    for (let i = 0; i < 5; i += 1) {
+      documents.push({ collection: 'levels', documentName: `level${i}`, documentBody: { i } });
+    }
+
+    const progress: ImportReport[] = [];
+    await database.importCollections(input(...documents), {
+      batchSize: 2,
+      onProgress: update => progress.push(update),
+    });
+
+    expect(progress.map(({ written }) => written)).to.deep.equal([2, 4, 5]);
+  });
+
+  it('should reject malformed lines', async () => {
+    const stream = new PassThrough();
+    stream.end('{"collection":"scores","documentName":"b","documentBody":{}}\nnot json\n');
+    try {
+      await database.importCollections(stream);
+      throw new Error('expected import to throw');
+    } catch (err) {
+      expect(err.message).to.eq('Line 2 is not valid JSON');
+    }
+  });
+});
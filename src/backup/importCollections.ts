@@ -0,0 +1,194 @@
+import { StringDecoder } from 'string_decoder';
+
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { BulkOperation, BulkWriteOptions, bulkWrite } from '../bulk/bulkWrite';
+import { DatabaseError, ValidationError } from '../errors/DatabaseError';
+import { Transaction } from '../transaction/Transaction';
+import { ExportedDocument } from './exportCollections';
+
+// What to do with documents that already exist:
+// - overwrite: replace them
+// - skip-existing: leave them alone
+// - merge: update them with the imported fields
+export type ImportMode = 'overwrite' | 'skip-existing' | 'merge';
+
+export interface ImportOptions extends BulkWriteOptions {
+  mode?: ImportMode;
+
+  // Read the input and check what exists, but write nothing. The report says
+  // what would have been written.
+  dryRun?: boolean;
+
+  // Called after each batch of lines is imported
+  onProgress?: (report: ImportReport) => void;
+}
+
+export interface ImportFailure {
+  collection: string;
+  documentName: string;
+  error: DatabaseError;
+}
+
+export interface ImportReport {
+  // Documents read from the input
+  documents: number;
+
+  written: number;
+  skipped: number;
+  failed: number;
+  failures: ImportFailure[];
+}
+
+// Restore documents from NDJSON written by `exportCollections`. Lines are read
+// and written `batchSize` at a time, so large files aren't held in memory.
+export async function importCollections(
+  adapter: DatabaseAdapter,
+  stream: NodeJS.ReadableStream,
+  options: ImportOptions = {},
+): Promise<ImportReport> {
+  const mode = options.mode || 'overwrite';
+  const report: ImportReport = { documents: 0, written: 0, skipped: 0, failed: 0, failures: [] };
+
+  await readLines(stream, options.batchSize || 100, async (lines) => {
+    const documents = lines.map(({ text, lineNumber }) => parseLine(text, lineNumber));
+    report.documents += documents.length;
+
+    const existing = mode === 'overwrite' ? undefined : await findExisting(adapter, documents, options);
+    const operations: (BulkOperation & { collection: string })[] = [];
+    documents.forEach(({ collection, documentName, documentBody }) => {
+      const exists = !!existing && existing[collection].indexOf(documentName) !== -1;
+      if (exists && mode === 'skip-existing') {
+        report.skipped += 1;
+        return;
+      }
+
+      operations.push({
+        collection,
+        documentName,
+        apply: (transaction: Transaction) => exists
+          ? transaction.update(collection, documentName, documentBody)
+          : transaction.set(collection, documentName, documentBody),
+      });
+    });
+
+    if (options.dryRun) {
+      report.written += operations.length;
+    } else {
+      const { results } = await bulkWrite(adapter, operations, options);
+      results.forEach(({ success, error }, index) => {
+        if (success) {
+          report.written += 1;
+        } else {
+          report.failed += 1;
+          report.failures.push({
+            collection: operations[index].collection,
+            documentName: operations[index].documentName,
+            error: error as DatabaseError,
+          });
+        }
+      });
+    }
+
+    if (options.onProgress) {
+      options.onProgress({ ...report, failures: report.failures.slice() });
+    }
+  });
+
+  return report;
+}
+
+function parseLine(line: string, lineNumber: number): ExportedDocument {
+  let document: any;
+  try {
+    document = JSON.parse(line);
+  } catch (err) {
+    throw new ValidationError(`Line ${lineNumber} is not valid JSON`);
+  }
+
+  if (!document || typeof document.collection !== 'string' || typeof document.documentName !== 'string') {
+    throw new ValidationError(`Line ${lineNumber} must have a collection and documentName`);
+  }
+  return document;
+}
+
+// The names of the given documents that already exist, by collection
+async function findExisting(
+  adapter: DatabaseAdapter,
+  documents: ExportedDocument[],
+  options: ImportOptions,
+): Promise<{ [collection: string]: string[] }> {
+  const names: { [collection: string]: string[] } = {};
+  documents.forEach(({ collection, documentName }) => {
+    names[collection] = (names[collection] || []).concat([documentName]);
+  });
+
+  const existing: { [collection: string]: string[] } = {};
+  await Promise.all(Object.keys(names).map(async (collection) => {
+    const found = await adapter.getAll<any>(collection, names[collection], { ...options, cache: false });
+    existing[collection] = (found || []).map(({ _id }) => String(_id));
+  }));
+  return existing;
+}
+
+interface Line {
+  text: string;
+
+  // 1-based, for error messages
+  lineNumber: number;
+}
+
+// Call `onLines` with each run of `batchSize` non-empty lines (the last may be
+// shorter), pausing the stream until it resolves
+function readLines(
+  stream: NodeJS.ReadableStream,
+  batchSize: number,
+  onLines: (lines: Line[]) => Promise<void>,
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const decoder = new StringDecoder('utf8');
+    let partial = '';
+    let lineNumber = 0;
+    const pending: Line[] = [];
+
+    const takeLines = (text: string) => {
+      const parts = (partial + text).split('\n');
+      partial = parts.pop() || '';
+      parts.forEach((part) => {
+        lineNumber += 1;
+        if (part.trim()) {
+          pending.push({ text: part, lineNumber });
+        }
+      });
+    };
+
+    // Send full batches, or everything left once the input has ended
+    const sendPending = async (isEnded: boolean) => {
+      while (pending.length >= batchSize || (isEnded && pending.length > 0)) {
+        await onLines(pending.splice(0, batchSize));
+      }
+    };
+
+    const fail = (err: any) => {
+      stream.removeListener('data', onData);
+      stream.removeListener('end', onEnd);
+      reject(err);
+    };
+
+    const onData = (chunk: string | Buffer) => {
+      takeLines(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+      if (pending.length >= batchSize) {
+        stream.pause();
+        sendPending(false).then(() => stream.resume(), fail);
+      }
+    };
+
+    const onEnd = () => {
+      takeLines(`${decoder.end()}\n`);
+      sendPending(true).then(resolve, fail);
+    };
+
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    stream.on('error', fail);
+  });
+}
@@ -0,0 +1,80 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { NotFoundError } from '../errors/DatabaseError';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Read batching', () => {
+  const testCollectionName = 'TEST_COLLECTION';
+
+  let requests: { operation: string, body: any }[];
+  let database: DatabaseAdapter;
+
+  beforeEach(async () => {
+    requests = [];
+    database = new DatabaseAdapter({
+      backend: new MemoryBackend(),
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      batching: { maxBatchSize: 2 },
+      middleware: [{ before: ({ operation, body }) => requests.push({ operation, body }) }],
+    });
+    await Promise.all(['a', 'b', 'c'].map(name => database.set(testCollectionName, name, { name })));
+    await database.set('OTHER', 'a', { name: 'other' });
+    requests = [];
+  });
+
+  it('should coalesce concurrent gets into getAll requests', async () => {
+    const documents: any[] = await Promise.all([
+      database.get(testCollectionName, 'a'),
+      database.get(testCollectionName, 'b'),
+      database.get('OTHER', 'a'),
+    ]);
+
+    expect(documents.map(document => document.name)).to.deep.equal(['a', 'b', 'other']);
+    expect(requests.map(({ operation }) => operation)).to.deep.equal(['getAll', 'getAll']);
+    expect(requests[0].body.documentNames).to.deep.equal(['a', 'b']);
+  });
+
+  it('should de-duplicate identical reads without sharing results', async () => {
+    const [first, second]: any[] = await Promise.all([
+      database.get(testCollectionName, 'a'),
+      database.get(testCollectionName, 'a'),
+    ]);
+
+    expect(requests.length).to.eq(1);
+    expect(requests[0].body.documentNames).to.deep.equal(['a']);
+    first.name = 'changed';
+    expect(second.name).to.eq('a');
+  });
+
+  it('should reject only the callers whose document is missing', async () => {
+    const results = await Promise.all([
+      database.get(testCollectionName, 'a'),
+      database.get(testCollectionName, 'MISSING').catch(err => err),
+    ]);
+
+    expect((results[0] as any).name).to.eq('a');
+    expect(results[1]).to.be.instanceOf(NotFoundError);
+    expect(results[1].documentName).to.eq('MISSING');
+    expect(requests.length).to.eq(1);
+  });
+
+  it('should chunk batches and getAll calls to the max size', async () => {
+    await Promise.all(['a', 'b', 'c'].map(name => database.get(testCollectionName, name)));
+    expect(requests.map(({ body }) => body.documentNames)).to.deep.equal([['a', 'b'], ['c']]);
+
+    requests = [];
+    const documents: any[] = await database.getAll(testCollectionName, ['a', 'b', 'c']);
+    expect(documents.length).to.eq(3);
+    expect(requests.length).to.eq(2);
+  });
+
+  it('should send reads with their own options separately', async () => {
+    await Promise.all([
+      database.get(testCollectionName, 'a', { batch: false }),
+      database.get(testCollectionName, 'b', { timeout: 1000 }),
+    ]);
+    expect(requests.map(({ operation }) => operation)).to.deep.equal(['get', 'get']);
+  });
+});
@@ -0,0 +1,128 @@
+import { NotFoundError } from '../errors/DatabaseError';
+
+export interface BatchingOptions {
+  // Most documents fetched by one `getAll`. Larger batches are split.
+  maxBatchSize?: number;
+}
+
+// Fetches `documentNames` from `collection`, resolving with whichever exist
+export type FetchMany = (collection: string, documentNames: string[]) => Promise<any[]>;
+
+interface PendingLoad {
+  documentName: string;
+  promise: Promise<any>;
+  resolve: (document: any) => void;
+  reject: (err: any) => void;
+}
+
+// Coalesces single-document reads issued in the same tick into one `getAll`
+// per collection. Concurrent reads of the same document share a request, and
+// each caller gets its own copy of the result.
+export class ReadBatcher {
+  public readonly maxBatchSize: number;
+  private readonly fetchMany: FetchMany;
+
+  // Waiting for the next flush, by collection then document name
+  private queued = new Map<string, Map<string, PendingLoad>>();
+
+  // Queued or sent, and not yet settled, by collection and document name
+  private inFlight = new Map<string, PendingLoad>();
+
+  private isScheduled = false;
+
+  constructor(fetchMany: FetchMany, options: BatchingOptions = {}) {
+    this.fetchMany = fetchMany;
+    this.maxBatchSize = options.maxBatchSize || 100;
+  }
+
+  public load(collection: string, documentName: string): Promise<any> {
+    const key = JSON.stringify([collection, documentName]);
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.enqueue(collection, documentName);
+      this.inFlight.set(key, pending);
+
+      const settle = () => this.inFlight.delete(key);
+      pending.promise.then(settle, settle);
+    }
+    return pending.promise.then(copy);
+  }
+
+  private enqueue(collection: string, documentName: string): PendingLoad {
+    let resolve: (document: any) => void = () => undefined;
+    let reject: (err: any) => void = () => undefined;
+    const promise = new Promise<any>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    const pending = { documentName, promise, resolve, reject };
+
+    let collectionQueue = this.queued.get(collection);
+    if (!collectionQueue) {
+      collectionQueue = new Map();
+      this.queued.set(collection, collectionQueue);
+    }
+    collectionQueue.set(documentName, pending);
+
+    if (!this.isScheduled) {
+      this.isScheduled = true;
+      setImmediate(() => this.flush());
+    }
+    return pending;
+  }
+
+  private flush() {
+    const queued = this.queued;
+    this.queued = new Map();
+    this.isScheduled = false;
+
+    queued.forEach((collectionQueue, collection) => {
+      const loads: PendingLoad[] = [];
+      collectionQueue.forEach(pending => loads.push(pending));
+      chunk(loads, this.maxBatchSize).forEach(batch => this.dispatch(collection, batch));
+    });
+  }
+
+  private async dispatch(collection: string, batch: PendingLoad[]) {
+    let documents: any[];
+    try {
+      documents = await this.fetchMany(collection, batch.map(({ documentName }) => documentName));
+    } catch (err) {
+      batch.forEach(({ reject }) => reject(err));
+      return;
+    }
+
+    const byName = new Map<string, any>();
+    (documents || []).forEach((document) => {
+      if (document && document._id !== undefined) {
+        byName.set(String(document._id), document);
+      }
+    });
+
+    batch.forEach(({ documentName, resolve, reject }) => {
+      if (byName.has(documentName)) {
+        resolve(byName.get(documentName));
+      } else {
+        reject(new NotFoundError({
+          collection,
+          documentName,
+          statusCode: 404,
+          endpoint: '/v1/store/getAll',
+        }));
+      }
+    });
+  }
+}
+
+// Split `items` into runs of at most `size`
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function copy(document: any): any {
+  return document === undefined ? document : JSON.parse(JSON.stringify(document));
+}
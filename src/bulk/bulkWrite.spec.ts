@@ -0,0 +1,116 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { TransactionError } from '../errors/DatabaseError';
+import { Transaction, TransactionState } from '../transaction/Transaction';
+import { bulkWrite, forEachWithConcurrency } from './bulkWrite';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Bulk writes', () => {
+  const testCollectionName = 'TEST_COLLECTION';
+
+  let commits: number;
+  let database: DatabaseAdapter;
+
+  beforeEach(() => {
+    commits = 0;
+    database = new DatabaseAdapter({
+      backend: new MemoryBackend(),
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      middleware: [{
+        before: ({ operation }) => {
+          if (operation === 'commitTransaction') {
+            commits += 1;
+          }
+        },
+      }],
+    });
+  });
+
+  it('should set documents in batches', async () => {
+    const documents: { [name: string]: any } = {};
+    for (let i = 0; i < 5; i += 1) {
+      documents[`doc${i}`] = { score: i };
+    }
+
+    const report = await database.setMany(testCollectionName, documents, { batchSize: 2 });
+    expect(report.succeeded).to.eq(5);
+    expect(report.failed).to.eq(0);
+    expect(report.results.map(({ documentName }) => documentName)).to.deep.equal(Object.keys(documents));
+    expect(commits).to.eq(3);
+
+    const stored: any[] = await database.getAll(testCollectionName, Object.keys(documents));
+    expect(stored.length).to.eq(5);
+  });
+
+  it('should report failures per document and apply the rest', async () => {
+    await database.setMany(testCollectionName, { a: { score: 1 }, b: { score: 2 } });
+
+    const report = await database.updateMany(testCollectionName, {
+      a: { score: 10 },
+      MISSING: { score: 0 },
+      b: { score: 20 },
+    });
+
+    expect(report.succeeded).to.eq(2);
+    expect(report.results[1].success).to.be.false;
+    expect(report.results[1].error).to.be.instanceOf(TransactionError);
+
+    const a: any = await database.get(testCollectionName, 'a');
+    const b: any = await database.get(testCollectionName, 'b');
+    expect([a.score, b.score]).to.deep.equal([10, 20]);
+  });
+
+  it('should abort a batch when a write can\'t be queued', async () => {
+    const transactions: Transaction[] = [];
+    const report = await bulkWrite(database, [
+      {
+        documentName: 'a',
+        apply: async (transaction) => {
+          transactions.push(transaction);
+          await transaction.set(testCollectionName, 'a', { score: 1 });
+        },
+      },
+      {
+        documentName: 'b',
+        apply: async () => {
+          throw new Error('boom');
+        },
+      },
+    ]);
+
+    expect(report.failed).to.eq(2);
+    expect(transactions[0].state).to.eq(TransactionState.ABORTED);
+    expect(commits).to.eq(0);
+  });
+
+  it('should delete by name and by predicate', async () => {
+    await database.setMany(testCollectionName, {
+      a: { season: 1 },
+      b: { season: 2 },
+      c: { season: 3 },
+    });
+
+    const byName = await database.deleteMany(testCollectionName, ['a']);
+    expect(byName.succeeded).to.eq(1);
+
+    const byPredicate = await database.deleteWhere(testCollectionName, { key: 'season', operation: '<', value: 3 });
+    expect(byPredicate.results.map(({ documentName }) => documentName)).to.deep.equal(['b']);
+
+    const remaining: any[] = await database.getAll(testCollectionName, ['a', 'b', 'c']);
+    expect(remaining.map(({ _id }) => _id)).to.deep.equal(['c']);
+  });
+
+  it('should bound concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    await forEachWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active -= 1;
+    });
+    expect(peak).to.eq(2);
+  });
+});
@@ -0,0 +1,124 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { RequestOptions } from '../adapter/RequestOptions';
+import { DatabaseError, TransactionError, toDatabaseError } from '../errors/DatabaseError';
+import { Transaction, TransactionState } from '../transaction/Transaction';
+
+export interface BulkWriteOptions extends RequestOptions {
+  // Writes per transaction
+  batchSize?: number;
+
+  // Transactions in flight at once
+  concurrency?: number;
+}
+
+export interface BulkWriteResult {
+  documentName: string;
+  success: boolean;
+  error?: DatabaseError;
+}
+
+export interface BulkWriteReport {
+  // One entry per document, in the order they were given
+  results: BulkWriteResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// The predicate format accepted by `getWhere`
+export interface WherePredicate {
+  key: string;
+  operation: string;
+  value: any;
+}
+
+// A single write, queued onto whichever transaction its batch is sent in
+export interface BulkOperation {
+  documentName: string;
+  apply(transaction: Transaction): Promise<void>;
+}
+
+// Send `operations` in transactions of `batchSize`, at most `concurrency` at a
+// time. Transactions are all-or-nothing, so when the service names the write
+// that failed, that write is reported and the rest of its batch is re-sent
+// without it.
+export async function bulkWrite(
+  adapter: DatabaseAdapter,
+  operations: BulkOperation[],
+  options: BulkWriteOptions = {},
+): Promise<BulkWriteReport> {
+  const batchSize = options.batchSize || 100;
+  const concurrency = options.concurrency || 4;
+
+  const results: BulkWriteResult[] = operations.map(({ documentName }) => ({ documentName, success: false }));
+  const indexed = operations.map((operation, index) => ({ operation, index }));
+
+  const batches: { operation: BulkOperation, index: number }[][] = [];
+  for (let i = 0; i < indexed.length; i += batchSize) {
+    batches.push(indexed.slice(i, i + batchSize));
+  }
+
+  await forEachWithConcurrency(batches, concurrency, async (batch) => {
+    let remaining = batch;
+    while (remaining.length > 0) {
+      const transaction = adapter.beginTransaction();
+      try {
+        for (const { operation } of remaining) {
+          await operation.apply(transaction);
+        }
+        await transaction.commit(options);
+      } catch (err) {
+        // A write that couldn't be queued leaves the transaction open
+        if (transaction.state === TransactionState.OPEN) {
+          transaction.abort();
+        }
+
+        const error = toDatabaseError(err);
+        const failedAt = err instanceof TransactionError ? err.operationIndex : undefined;
+        if (typeof failedAt !== 'number' || !remaining[failedAt]) {
+          remaining.forEach(({ index }) => {
+            results[index].error = error;
+          });
+          return;
+        }
+
+        results[remaining[failedAt].index].error = error;
+        remaining = remaining.filter((_, position) => position !== failedAt);
+        continue;
+      }
+
+      remaining.forEach(({ index }) => {
+        results[index].success = true;
+      });
+      return;
+    }
+  });
+
+  const succeeded = results.filter(({ success }) => success).length;
+  return {
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+  };
+}
+
+// Run `callback` over `items` with at most `limit` calls pending at once
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  callback: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      await callback(item);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(limit, items.length); i += 1) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+}
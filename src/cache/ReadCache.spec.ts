@@ -0,0 +1,146 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { ReadCache } from './ReadCache';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Read cache', () => {
+  const testCollectionName = 'TEST_COLLECTION';
+  const testDocumentName = 'TEST_DOCUMENT';
+
+  let backend: MemoryBackend;
+  let requests: string[];
+  let database: DatabaseAdapter;
+
+  beforeEach(async () => {
+    backend = new MemoryBackend();
+    requests = [];
+    database = new DatabaseAdapter({
+      backend,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      cache: { ttl: 60000, collectionTtl: { UNCACHED: 0 } },
+      middleware: [{ before: context => requests.push(context.operation) }],
+    });
+    await database.set(testCollectionName, testDocumentName, { score: 1 });
+    await database.set(testCollectionName, 'OTHER', { score: 2 });
+    requests = [];
+  });
+
+  it('should serve repeated reads from the cache', async () => {
+    await database.get(testCollectionName, testDocumentName);
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.score).to.eq(1);
+
+    await database.getAll(testCollectionName, [testDocumentName, 'OTHER']);
+    await database.getAll(testCollectionName, [testDocumentName, 'OTHER']);
+    await database.getWhere(testCollectionName, 'score', '>', 0 as any);
+    await database.getWhere(testCollectionName, 'score', '>', 0 as any);
+
+    expect(requests.length).to.eq(3);
+    expect(database.cacheStats()).to.include({ hits: 3, misses: 3, size: 3 });
+  });
+
+  it('should not share references between reads', async () => {
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    document.score = 100;
+
+    const reread: any = await database.get(testCollectionName, testDocumentName);
+    expect(reread.score).to.eq(1);
+  });
+
+  it('should invalidate on writes through the adapter', async () => {
+    await database.get(testCollectionName, testDocumentName);
+    await database.get(testCollectionName, 'OTHER');
+    await database.update(testCollectionName, testDocumentName, { score: 5 });
+
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.score).to.eq(5);
+
+    // Other documents stay cached
+    await database.get(testCollectionName, 'OTHER');
+    expect(requests.filter(operation => operation === 'get').length).to.eq(3);
+  });
+
+  it('should invalidate predicate reads on any write to the collection', async () => {
+    await database.getWhere(testCollectionName, 'score', '>', 0 as any);
+    await database.set(testCollectionName, 'THIRD', { score: 3 });
+
+    const results: any = await database.getWhere(testCollectionName, 'score', '>', 0 as any);
+    expect(results.length).to.eq(3);
+  });
+
+  it('should invalidate on committed transactions', async () => {
+    await database.get(testCollectionName, testDocumentName);
+
+    const transaction = database.beginTransaction();
+    await transaction.delete(testCollectionName, testDocumentName);
+    await transaction.commit();
+
+    const documents: any = await database.getAll(testCollectionName, [testDocumentName]);
+    expect(documents.length).to.eq(0);
+    try {
+      await database.get(testCollectionName, testDocumentName);
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err.message).to.eq('Document not found');
+    }
+  });
+
+  it('should invalidate manually', async () => {
+    await database.get(testCollectionName, testDocumentName);
+    await backend.request({
+      uri: 'http://localhost/v1/store/update',
+      method: 'POST',
+      headers: {},
+      json: true,
+      body: { collection: testCollectionName, documentName: testDocumentName, documentBody: { score: 9 } },
+    });
+
+    let document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.score).to.eq(1);
+
+    database.invalidate(testCollectionName, testDocumentName);
+    document = await database.get(testCollectionName, testDocumentName);
+    expect(document.score).to.eq(9);
+  });
+
+  it('should skip disabled collections and bypassed reads', async () => {
+    await database.set('UNCACHED', 'doc', { score: 1 });
+    requests = [];
+
+    await database.get('UNCACHED', 'doc');
+    await database.get('UNCACHED', 'doc');
+    await database.get(testCollectionName, testDocumentName);
+    await database.get(testCollectionName, testDocumentName, { cache: false });
+    expect(requests.length).to.eq(4);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new ReadCache({ maxEntries: 2 });
+    cache.set('a', testCollectionName, ['a'], 1);
+    cache.set('b', testCollectionName, ['b'], 2);
+    cache.get('a');
+    cache.set('c', testCollectionName, ['c'], 3);
+
+    expect(cache.get('b')).to.be.undefined;
+    expect(cache.get('a')).to.eq(1);
+    expect(cache.get('c')).to.eq(3);
+    expect(cache.stats().evictions).to.eq(1);
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const cache = new ReadCache({ ttl: 10 });
+    cache.set('a', testCollectionName, ['a'], 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(cache.get('a')).to.be.undefined;
+  });
+
+  it('should not cache a read that raced with an invalidation', () => {
+    const cache = new ReadCache();
+    const since = cache.mark();
+    cache.invalidate(testCollectionName, 'a');
+    cache.set('a', testCollectionName, ['a'], 1, since);
+    expect(cache.get('a')).to.be.undefined;
+  });
+});
@@ -0,0 +1,137 @@
+export interface ReadCacheOptions {
+  // Most entries kept before the least recently used is evicted
+  maxEntries?: number;
+
+  // Milliseconds an entry stays fresh. `collectionTtl` overrides this per
+  // collection; a TTL of 0 disables caching for that collection.
+  ttl?: number;
+  collectionTtl?: { [collection: string]: number };
+}
+
+export interface ReadCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+}
+
+interface CacheEntry {
+  collection: string;
+
+  // The documents a result was built from, or undefined for results that any
+  // write to the collection could change (predicate reads)
+  documentNames?: string[];
+
+  value: string;
+  expiresAt: number;
+}
+
+// An LRU cache of read results. Values are stored serialized, so callers can
+// freely mutate what they get back.
+export class ReadCache {
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+  private readonly collectionTtl: { [collection: string]: number };
+
+  private entries = new Map<string, CacheEntry>();
+
+  // Bumped on every invalidation, so a read that was in flight while its
+  // collection was written to isn't cached afterwards
+  private generation = 0;
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: ReadCacheOptions = {}) {
+    this.maxEntries = options.maxEntries || 500;
+    this.ttl = options.ttl !== undefined ? options.ttl : 60000;
+    this.collectionTtl = options.collectionTtl || {};
+  }
+
+  public isEnabled(collection: string): boolean {
+    return this.ttlFor(collection) > 0;
+  }
+
+  // The cached value for `key`, or undefined on a miss
+  public get(key: string): any {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses += 1;
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits += 1;
+    return JSON.parse(entry.value);
+  }
+
+  // Pass to `set` to drop results that were loaded across an invalidation
+  public mark(): number {
+    return this.generation;
+  }
+
+  public set(
+    key: string,
+    collection: string,
+    documentNames: string[] | undefined,
+    value: any,
+    since: number = this.generation,
+  ) {
+    if (value === undefined || since !== this.generation || !this.isEnabled(collection)) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      collection,
+      documentNames,
+      value: JSON.stringify(value),
+      expiresAt: Date.now() + this.ttlFor(collection),
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      this.entries.delete(oldest);
+      this.evictions += 1;
+    }
+  }
+
+  // Drop everything cached for `collection`, or only what could depend on
+  // `documentName` when given
+  public invalidate(collection?: string, documentName?: string | null) {
+    this.generation += 1;
+
+    const stale: string[] = [];
+    this.entries.forEach((entry, key) => {
+      if (collection === undefined) {
+        stale.push(key);
+      } else if (entry.collection === collection && (
+        !documentName
+        || !entry.documentNames
+        || entry.documentNames.indexOf(documentName) !== -1
+      )) {
+        stale.push(key);
+      }
+    });
+    stale.forEach(key => this.entries.delete(key));
+  }
+
+  public stats(): ReadCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+    };
+  }
+
+  private ttlFor(collection: string): number {
+    return this.collectionTtl.hasOwnProperty(collection) ? this.collectionTtl[collection] : this.ttl;
+  }
+}
@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { parseArgs, runCli } from './cli';
+import { formatTable } from './format';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('CLI', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    backend = new MemoryBackend();
+  });
+
+  async function run(argv: string[], input: string = '') {
+    const stdin = new PassThrough();
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    stdin.end(input);
+
+    const code = await runCli(argv, {
+      stdin,
+      stdout,
+      stderr,
+      env: { KOJI_PROJECT_ID: 'test-project', KOJI_PROJECT_TOKEN: 'test-token' },
+      config: { backend },
+    });
+    return {
+      code,
+      stdout: String(stdout.read() || ''),
+      stderr: String(stderr.read() || ''),
+    };
+  }
+
+  it('should parse flags, positional arguments and predicates', () => {
+    expect(parseArgs(['find', 'scores', '--where', 'score', '>', '10', '--format=table', '--wait'])).to.deep.equal({
+      command: 'find',
+      positional: ['scores'],
+      flags: { format: 'table', wait: true },
+      where: [['score', '>', '10']],
+    });
+  });
+
+  it('should write, read and delete documents', async () => {
+    const set = await run(['set', 'scores', 'player1'], '{"score": 10}');
+    expect(set.code).to.eq(0);
+
+    await run(['update', 'scores', 'player1'], '{"name": "Ada"}');
+    const get = await run(['get', 'scores', 'player1']);
+    expect(JSON.parse(get.stdout)).to.include({ _id: 'player1', score: 10, name: 'Ada' });
+
+    const collections = await run(['collections']);
+    expect(JSON.parse(collections.stdout)).to.deep.equal(['scores']);
+
+    await run(['delete', 'scores', 'player1']);
+    const missing = await run(['get', 'scores', 'player1']);
+    expect(missing.code).to.eq(1);
+    expect(missing.stderr).to.contain('Document not found');
+  });
+
+  it('should find documents with a predicate', async () => {
+    await run(['set', 'scores', 'a'], '{"score": 5}');
+    await run(['set', 'scores', 'b'], '{"score": 50}');
+
+    const all = await run(['find', 'scores']);
+    expect(JSON.parse(all.stdout).length).to.eq(2);
+
+    const matching = await run(['find', 'scores', '--where', 'score', '>', '10']);
+    expect(JSON.parse(matching.stdout).map((document: any) => document._id)).to.deep.equal(['b']);
+  });
+
+  it('should export and import NDJSON through stdio', async () => {
+    await run(['set', 'scores', 'a'], '{"score": 5}');
+    const exported = await run(['export']);
+    expect(exported.stdout).to.eq('{"collection":"scores","documentName":"a","documentBody":{"score":5}}\n');
+
+    backend.reset();
+    const imported = await run(['import', '--mode', 'skip-existing'], exported.stdout);
+    expect(JSON.parse(imported.stdout)).to.include({ documents: 1, written: 1 });
+  });
+
+  it('should export to a file', async () => {
+    await run(['set', 'scores', 'a'], '{"score": 5}');
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'koji-db-'));
+    const file = path.join(directory, 'backup.ndjson');
+    try {
+      const result = await run(['export', '--file', file]);
+      expect(result.code).to.eq(0);
+      expect(JSON.parse(result.stdout)).to.include({ documents: 1 });
+      expect(fs.readFileSync(file, 'utf8')).to.contain('"documentName":"a"');
+    } finally {
+      fs.unlinkSync(file);
+      fs.rmdirSync(directory);
+    }
+  });
+
+  it('should fail an export to a file that can\'t be written', async () => {
+    await run(['set', 'scores', 'a'], '{"score": 5}');
+    const result = await run(['export', '--file', path.join(os.tmpdir(), 'missing-directory', 'backup.ndjson')]);
+    expect(result.code).to.eq(1);
+    expect(result.stderr).to.contain('ENOENT');
+  });
+
+  it('should keep the previous file when an export fails partway', async () => {
+    await run(['set', 'scores', 'a'], '{"score": 5}');
+    await run(['set', 'players', 'b'], '{"name": "Bo"}');
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'koji-db-'));
+    const file = path.join(directory, 'backup.ndjson');
+    fs.writeFileSync(file, 'previous backup\n');
+
+    // Fail the read of the second collection, after the first was written
+    const request = backend.request.bind(backend);
+    backend.request = async (options) => {
+      if (String(options.uri).endsWith('/v1/store/get') && options.body.collection === 'players') {
+        throw new Error('read failed');
+      }
+      return request(options);
+    };
+
+    try {
+      const result = await run(['export', '--file', file, '--collections', 'scores,players']);
+      expect(result.code).to.eq(1);
+      expect(result.stderr).to.contain('Network error');
+      expect(fs.readFileSync(file, 'utf8')).to.eq('previous backup\n');
+      expect(fs.readdirSync(directory)).to.deep.equal(['backup.ndjson']);
+    } finally {
+      fs.unlinkSync(file);
+      fs.rmdirSync(directory);
+    }
+  });
+
+  it('should print usage for unknown commands', async () => {
+    const result = await run(['frobnicate']);
+    expect(result.code).to.eq(2);
+    expect(result.stderr).to.contain('Unknown command: frobnicate');
+    expect(result.stderr).to.contain('Usage: koji-db');
+  });
+
+  it('should format tables', () => {
+    expect(formatTable([{ _id: 'a', score: 1 }, { _id: 'bb', tags: ['x'] }])).to.eq([
+      '_id  score  tags',
+      '---  -----  -----',
+      'a    1',
+      'bb          ["x"]',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,313 @@
+import * as fs from 'fs';
+
+import { Config } from '../Config';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { ExportOptions, ExportReport } from '../backup/exportCollections';
+import { ImportMode } from '../backup/importCollections';
+import { OutputFormat, formatOutput } from './format';
+
+export interface CliIO {
+  stdin: NodeJS.ReadableStream;
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  env: { [name: string]: string | undefined };
+
+  // Merged into the adapter's configuration, e.g. to use a `MemoryBackend`
+  config?: Partial<Config>;
+}
+
+export interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  flags: { [name: string]: string | boolean };
+
+  // Each `--where key op value`
+  where: [string, string, string][];
+}
+
+const booleanFlags = ['wait', 'dry-run', 'help'];
+
+export const usage = `Usage: koji-db <command> [options]
+
+Commands:
+  collections                            List collections
+  get <collection> <document>            Read a document
+  find <collection> [--where k op v]     Read every document, or those matching a predicate
+  set <collection> <document> [--file f] Write a document from JSON (stdin by default)
+  update <collection> <document> [--file f]
+                                         Update fields of a document from JSON
+  delete <collection> <document>         Delete a document
+  export [--collections a,b] [--file f]  Write documents as NDJSON (stdout by default)
+  import [--file f] [--mode m] [--dry-run]
+                                         Restore documents from NDJSON (stdin by default);
+                                         mode is overwrite, skip-existing or merge
+  upload <file> [--name n] [--content-type t]
+                                         Upload a file and print its URL
+  transcode <path> [--type t] [--options json] [--wait] [--interval ms] [--timeout ms]
+                                         Start a transcode, optionally waiting for it to finish
+                                         and checking on it every --interval (default 1000)
+
+Options:
+  --format json|table                    Output format (default json)
+  --base-url <url>                       Database API to use
+
+KOJI_PROJECT_ID and KOJI_PROJECT_TOKEN must be set. KOJI_DATABASE_URL can
+stand in for --base-url.
+`;
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {}, where: [] };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--where') {
+      if (i + 3 >= argv.length) {
+        throw new UsageError('--where takes a key, an operator and a value');
+      }
+      parsed.where.push([argv[i + 1], argv[i + 2], argv[i + 3]]);
+      i += 3;
+    } else if (arg.indexOf('--') === 0) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/);
+      if (inline !== undefined) {
+        parsed.flags[name] = inline;
+      } else if (booleanFlags.indexOf(name) !== -1) {
+        parsed.flags[name] = true;
+      } else if (i + 1 < argv.length) {
+        parsed.flags[name] = argv[i + 1];
+        i += 1;
+      } else {
+        throw new UsageError(`--${name} needs a value`);
+      }
+    } else if (parsed.command === undefined) {
+      parsed.command = arg;
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+// Run the CLI, resolving with the process exit code
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+    if (!args.command || args.flags.help) {
+      io.stdout.write(usage);
+      return args.flags.help ? 0 : 2;
+    }
+
+    const result = await runCommand(args, io);
+    if (result !== undefined) {
+      const format = (args.flags.format || 'json') as OutputFormat;
+      io.stdout.write(`${formatOutput(result, format)}\n`);
+    }
+    return 0;
+  } catch (err) {
+    io.stderr.write(`${err.message}\n`);
+    if (err instanceof UsageError) {
+      io.stderr.write(`\n${usage}`);
+      return 2;
+    }
+    return 1;
+  }
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+async function runCommand(args: ParsedArgs, io: CliIO): Promise<any> {
+  const { command, positional, flags } = args;
+  const flag = (name: string) => (typeof flags[name] === 'string' ? flags[name] as string : undefined);
+  const format = flag('format') || 'json';
+  if (format !== 'json' && format !== 'table') {
+    throw new UsageError(`Unknown format: ${format}`);
+  }
+
+  const database = createAdapter(flag('base-url'), io);
+  const required = (count: number) => {
+    if (positional.length < count) {
+      throw new UsageError(`${command} needs ${count} argument${count === 1 ? '' : 's'}`);
+    }
+    return positional;
+  };
+
+  switch (command) {
+    case 'collections':
+      return database.getCollections();
+
+    case 'get': {
+      const [collection, documentName] = required(2);
+      return database.get(collection, documentName);
+    }
+
+    case 'find': {
+      const [collection] = required(1);
+      if (args.where.length > 1) {
+        throw new UsageError('find supports one --where');
+      }
+      if (args.where.length === 1) {
+        const [key, operation, value] = args.where[0];
+        return database.getWhere(collection, key, operation, parseValue(value));
+      }
+
+      const documents: any[] = [];
+      const iterator = database.collection(collection).iterate();
+      while (true) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          return documents;
+        }
+        documents.push(value);
+      }
+    }
+
+    case 'set':
+    case 'update': {
+      const [collection, documentName] = required(2);
+      const documentBody = JSON.parse(await readInput(flag('file'), io));
+      if (command === 'set') {
+        await database.set(collection, documentName, documentBody);
+      } else {
+        await database.update(collection, documentName, documentBody);
+      }
+      return { collection, documentName, success: true };
+    }
+
+    case 'delete': {
+      const [collection, documentName] = required(2);
+      await database.delete(collection, documentName);
+      return { collection, documentName, success: true };
+    }
+
+    case 'export': {
+      const file = flag('file');
+      const collections = flag('collections');
+      const exportOptions = { collections: collections ? collections.split(',') : undefined };
+      if (file) {
+        return exportToFile(database, file, exportOptions);
+      }
+
+      const report = await database.exportCollections(io.stdout, exportOptions);
+
+      // The documents went to stdout, so keep the summary out of the way
+      io.stderr.write(`Exported ${report.documents} documents\n`);
+      return undefined;
+    }
+
+    case 'import': {
+      const file = flag('file');
+      const input = file ? fs.createReadStream(file) : io.stdin;
+      const mode = (flag('mode') || 'overwrite') as ImportMode;
+      if (['overwrite', 'skip-existing', 'merge'].indexOf(mode) === -1) {
+        throw new UsageError(`Unknown import mode: ${mode}`);
+      }
+      return database.importCollections(input, { mode, dryRun: !!flags['dry-run'] });
+    }
+
+    case 'upload': {
+      const [path] = required(1);
+      const url = await database.uploadFile(path, flag('name'), flag('content-type'));
+      return { url };
+    }
+
+    case 'transcode': {
+      const [path] = required(1);
+      const transcodeOptions = {
+        ...JSON.parse(flag('options') || '{}'),
+        type: flag('type') || 'video+hls',
+      };
+      const job = await database.transcode(path, transcodeOptions);
+      if (flags.wait) {
+        await job.wait({
+          interval: Number(flag('interval')) || 1000,
+          timeout: flag('timeout') ? Number(flag('timeout')) : undefined,
+        });
+      }
+      return {
+        url: job.url,
+        callbackTokens: job.callbackTokens,
+        state: job.state,
+      };
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+// Fails the command, rather than crashing the process, when the file can't be
+// opened or written. The export goes to a temporary file that is renamed over
+// `file` once it's complete; if the export fails, the temporary file is closed
+// and removed, so `file` is never left truncated.
+async function exportToFile(database: DatabaseAdapter, file: string, options: ExportOptions): Promise<ExportReport> {
+  const tempFile = `${file}.tmp`;
+  const output = fs.createWriteStream(tempFile);
+  const failed = new Promise<never>((resolve, reject) => output.on('error', reject));
+  let complete = false;
+
+  try {
+    const report = await Promise.race([failed, database.exportCollections(output, options)]);
+    await Promise.race([failed, new Promise(resolve => output.end(resolve))]);
+    fs.renameSync(tempFile, file);
+    complete = true;
+    return report;
+  } finally {
+    if (!complete) {
+      output.destroy();
+      removePartialFile(tempFile);
+    }
+  }
+}
+
+function removePartialFile(file: string) {
+  try {
+    fs.unlinkSync(file);
+  } catch (err) {
+    // It was never created
+  }
+}
+
+function createAdapter(baseUrlFlag: string | undefined, io: CliIO): DatabaseAdapter {
+  const projectId = io.env.KOJI_PROJECT_ID;
+  const projectToken = io.env.KOJI_PROJECT_TOKEN;
+  if (!projectId || !projectToken) {
+    throw new Error('KOJI_PROJECT_ID and KOJI_PROJECT_TOKEN must be set');
+  }
+
+  return new DatabaseAdapter({
+    projectId,
+    projectToken,
+    baseUrl: baseUrlFlag || io.env.KOJI_DATABASE_URL,
+    throwOnWriteError: true,
+    ...io.config,
+  });
+}
+
+// Predicate values are JSON when they parse (numbers, booleans, quoted
+// strings), and plain strings otherwise
+function parseValue(value: string): any {
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    return value;
+  }
+}
+
+function readInput(file: string | undefined, io: CliIO): Promise<string> {
+  if (file) {
+    return Promise.resolve(fs.readFileSync(file, 'utf8'));
+  }
+
+  return new Promise<string>((resolve, reject) => {
+    const chunks: string[] = [];
+    io.stdin.on('data', chunk => chunks.push(String(chunk)));
+    io.stdin.on('end', () => resolve(chunks.join('')));
+    io.stdin.on('error', reject);
+  });
+}
@@ -0,0 +1,68 @@
+export type OutputFormat = 'json' | 'table';
+
+export function formatOutput(value: any, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(value, null, 2);
+  }
+  return formatTable(value);
+}
+
+// Arrays of objects become one row per element with a column per key; a
+// single object becomes key/value rows
+export function formatTable(value: any): string {
+  if (Array.isArray(value)) {
+    if (value.every(item => isObject(item))) {
+      const columns: string[] = [];
+      value.forEach(item => Object.keys(item).forEach((key) => {
+        if (columns.indexOf(key) === -1) {
+          columns.push(key);
+        }
+      }));
+      return renderRows(columns, value.map(item => columns.map(key => cell(item[key]))));
+    }
+    return renderRows(['value'], value.map(item => [cell(item)]));
+  }
+
+  if (isObject(value)) {
+    return renderRows(['key', 'value'], Object.keys(value).map(key => [key, cell(value[key])]));
+  }
+  return cell(value);
+}
+
+function renderRows(columns: string[], rows: string[][]): string {
+  const widths = columns.map((column, index) => Math.max(
+    column.length,
+    ...rows.map(row => row[index].length),
+  ));
+  const line = (cells: string[]) => cells.map((text, index) => pad(text, widths[index])).join('  ').trimRight();
+
+  return [
+    line(columns),
+    line(widths.map(width => repeat('-', width))),
+    ...rows.map(line),
+  ].join('\n');
+}
+
+function cell(value: any): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function pad(text: string, width: number): string {
+  return text + repeat(' ', width - text.length);
+}
+
+function repeat(text: string, count: number): string {
+  let result = '';
+  for (let i = 0; i < count; i += 1) {
+    result += text;
+  }
+  return result;
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
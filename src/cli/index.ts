@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env,
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,120 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { SchemaValidationError } from '../errors/DatabaseError';
+import { defineSchema, zodSchema } from '../schema/Schema';
+import { expect } from 'chai';
+import 'mocha';
+
+interface Score {
+  name: string;
+  score: number;
+  tags?: string[];
+}
+
+describe('Collections', () => {
+  const backend = new MemoryBackend();
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  });
+
+  const schema = defineSchema<Score>({
+    name: 'string',
+    score: { type: 'number', check: value => (value < 0 ? 'must not be negative' : undefined) },
+    tags: { type: 'array', items: 'string', optional: true },
+  });
+
+  const scores = database.collection<Score>('scores', { schema });
+
+  beforeEach(async () => {
+    backend.reset();
+    await scores.set('player1', { name: 'Ada', score: 10, tags: [] });
+  });
+
+  it('should write and read through the handle', async () => {
+    await scores.update('player1', { score: DatabaseAdapter.valueTypes.increment(5) });
+    await scores.arrayPush('player1', { tags: 'champion' });
+
+    const document = await scores.getDocument('player1');
+    expect(document.score).to.eq(15);
+    expect(document.tags).to.deep.equal(['champion']);
+
+    const { documents } = await scores.where('score', '>', 10).get();
+    expect(documents.length).to.eq(1);
+  });
+
+  it('should reject invalid documents before writing', async () => {
+    try {
+      await scores.set('player2', { name: 'Grace', score: -1, colour: 'red' } as any);
+      throw new Error('expected set to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(SchemaValidationError);
+      expect(err.collection).to.eq('scores');
+      expect(err.documentName).to.eq('player2');
+      expect(err.issues).to.deep.equal(['score must not be negative', 'colour is not in the schema']);
+    }
+
+    const documents = await scores.getDocuments(['player2']);
+    expect(documents.length).to.eq(0);
+  });
+
+  it('should check partial updates and array elements', async () => {
+    try {
+      await scores.update('player1', { name: 42 } as any);
+      throw new Error('expected update to throw');
+    } catch (err) {
+      expect(err.issues).to.deep.equal(['name must be of type string']);
+    }
+
+    try {
+      await scores.arrayPush('player1', { tags: 7 } as any);
+      throw new Error('expected arrayPush to throw');
+    } catch (err) {
+      expect(err.issues).to.deep.equal(['tags[0] must be of type string']);
+    }
+  });
+
+  it('should optionally check documents as they are read', async () => {
+    await database.set('scores', 'player2', { name: 'Grace' });
+    const checked = database.collection<Score>('scores', { schema, validateReads: true });
+
+    try {
+      await checked.getDocument('player2');
+      throw new Error('expected getDocument to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(SchemaValidationError);
+      expect(err.documentName).to.eq('player2');
+    }
+
+    try {
+      await checked.orderBy('name').get();
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(SchemaValidationError);
+    }
+  });
+
+  it('should read stored documents through a strict schema', async () => {
+    await scores.set('player2', { name: 'Grace', score: 20 }, { expiresIn: '1h' });
+    const checked = database.collection<Score>('scores', { schema, validateReads: true });
+
+    const document: any = await checked.getDocument('player2');
+    expect(document._id).to.eq('player2');
+    expect(document._version).to.be.a('number');
+    expect(document._expiresAt).to.be.a('number');
+
+    const { documents } = await checked.orderBy('name').get();
+    expect(documents.map(({ name }) => name)).to.deep.equal(['Ada', 'Grace']);
+  });
+
+  it('should adapt zod-style schemas', () => {
+    const fake = {
+      safeParse: (value: any) => (typeof value.name === 'string'
+        ? { success: true, error: { issues: [] } }
+        : { success: false, error: { issues: [{ path: ['name'], message: 'Expected string' }] } }),
+    };
+    expect(zodSchema(fake).validate({ name: 1 }, false)).to.deep.equal(['name: Expected string']);
+    expect(zodSchema(fake).validate({ name: 'Ada' }, false)).to.deep.equal([]);
+  });
+});
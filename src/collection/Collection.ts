@@ -0,0 +1,144 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { RequestOptions, WriteOptions } from '../adapter/RequestOptions';
+import { SchemaValidationError } from '../errors/DatabaseError';
+import { Query } from '../query/Query';
+import { Schema, storeFields } from '../schema/Schema';
+import { ValueMarker, isValueMarker } from '../values/valueTypes';
+
+// A partial document, where any field may instead be an update marker. Nested
+// paths ('stats.wins') aren't covered by the type; use the adapter's `update`
+// for those.
+export type DocumentUpdate<T> = { [K in keyof T]?: T[K] | ValueMarker };
+
+export type ArrayFields<T> = { [K in keyof T]: T[K] extends any[] ? K : never }[keyof T];
+
+export type ArrayItem<A> = A extends (infer U)[] ? U : never;
+
+// One element per array field, as accepted by `arrayPush`/`arrayRemove`
+export type ArrayUpdate<T> = { [K in ArrayFields<T>]?: ArrayItem<T[K]> };
+
+export interface CollectionOptions<T> {
+  // Checked before every write. Writes that fail are rejected with a
+  // `SchemaValidationError` and never sent.
+  schema?: Schema<T>;
+
+  // Also check documents as they are read
+  validateReads?: boolean;
+}
+
+// A handle on one collection whose writes are constrained to the document type
+// `T`. Being a `Query`, it can also be filtered, sorted and paged.
+//
+//   const scores = database.collection<Score>('scores', { schema: scoreSchema });
+//   await scores.set('player1', { name: 'Ada', score: 10 });
+//   await scores.update('player1', { score: DatabaseAdapter.valueTypes.increment(5) });
+export class Collection<T = any> extends Query<T> {
+  public readonly name: string;
+  private readonly options: CollectionOptions<T>;
+
+  constructor(adapter: DatabaseAdapter, name: string, options: CollectionOptions<T> = {}) {
+    super(
+      adapter,
+      { collection: name, predicates: [], orderBy: [] },
+      options.schema && options.validateReads
+        ? readValidator(name, options.schema)
+        : undefined,
+    );
+    this.name = name;
+    this.options = options;
+  }
+
+  public async getDocument(documentName: string, requestOptions: RequestOptions = {}): Promise<T> {
+    const document = await this.adapter.get<T>(this.name, documentName, requestOptions);
+    return this.readDocument ? this.readDocument(document) : document;
+  }
+
+  public async getDocuments(documentNames: string[], requestOptions: RequestOptions = {}): Promise<T[]> {
+    const documents = await this.adapter.getAll<T>(this.name, documentNames, requestOptions);
+    return this.readDocument ? documents.map(this.readDocument) : documents;
+  }
+
+  public async set(documentName: string, documentBody: T, requestOptions: WriteOptions = {}) {
+    this.checkWrite(documentName, documentBody, false);
+    return this.adapter.set(this.name, documentName, documentBody, requestOptions);
+  }
+
+  public async update(documentName: string, documentBody: DocumentUpdate<T>, requestOptions: WriteOptions = {}) {
+    this.checkWrite(documentName, withoutMarkers(documentBody), true);
+    return this.adapter.update(this.name, documentName, documentBody, requestOptions);
+  }
+
+  public async arrayPush(documentName: string, documentBody: ArrayUpdate<T>, requestOptions: WriteOptions = {}) {
+    this.checkWrite(documentName, asArrays(documentBody), true);
+    return this.adapter.arrayPush(this.name, documentName, documentBody, requestOptions);
+  }
+
+  public async arrayRemove(documentName: string, documentBody: ArrayUpdate<T>, requestOptions: WriteOptions = {}) {
+    this.checkWrite(documentName, asArrays(documentBody), true);
+    return this.adapter.arrayRemove(this.name, documentName, documentBody, requestOptions);
+  }
+
+  public async delete(documentName: string, requestOptions: WriteOptions = {}) {
+    return this.adapter.delete(this.name, documentName, requestOptions);
+  }
+
+  private checkWrite(documentName: string, documentBody: any, partial: boolean) {
+    if (!this.options.schema) {
+      return;
+    }
+
+    const issues = this.options.schema.validate(documentBody, partial);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues, { documentName, collection: this.name });
+    }
+  }
+}
+
+function readValidator<T>(collection: string, schema: Schema<T>) {
+  return (document: any): T => {
+    const issues = schema.validate(withoutStoreFields(document), false);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(issues, {
+        collection,
+        documentName: document && document._id,
+      });
+    }
+    return document;
+  };
+}
+
+function withoutStoreFields(document: any): any {
+  if (!document || typeof document !== 'object') {
+    return document;
+  }
+  const body: any = {};
+  Object.keys(document)
+    .filter(key => storeFields.indexOf(key) === -1)
+    .forEach((key) => {
+      body[key] = document[key];
+    });
+  return body;
+}
+
+// Update markers and nested (dotted) paths can't be checked against field
+// types, so leave them out
+function withoutMarkers(documentBody: any): any {
+  const result: any = {};
+  Object.keys(documentBody || {}).forEach((key) => {
+    const value = documentBody[key];
+    if (!isValueMarker(value) && key.indexOf('.') === -1) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+
+// Check pushed/removed elements by wrapping each in an array, so a schema
+// describing the array field can validate it
+function asArrays(documentBody: any): any {
+  const result: any = {};
+  Object.keys(documentBody || {}).forEach((key) => {
+    result[key] = [documentBody[key]];
+  });
+  return result;
+}
@@ -0,0 +1,142 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { HttpBackend } from '../backend/HttpBackend';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { ConflictError, TransactionError, UnsupportedFeatureError, ValidationError } from '../errors/DatabaseError';
+import { HttpTransport } from '../transport/HttpTransport';
+import { conflictOf } from './runWithRetry';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Optimistic concurrency', () => {
+  const testCollectionName = 'TEST_COLLECTION';
+  const testDocumentName = 'TEST_DOCUMENT';
+
+  let database: DatabaseAdapter;
+
+  beforeEach(async () => {
+    database = new DatabaseAdapter({
+      backend: new MemoryBackend(),
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      cache: {},
+    });
+    await database.set(testCollectionName, testDocumentName, { tags: [] });
+  });
+
+  async function expectConflict(write: Promise<any>): Promise<ConflictError> {
+    try {
+      await write;
+    } catch (err) {
+      expect(err).to.be.instanceOf(ConflictError);
+      return err;
+    }
+    throw new Error('expected a conflict');
+  }
+
+  it('should bump the version on every write', async () => {
+    const before: any = await database.get(testCollectionName, testDocumentName);
+    await database.update(testCollectionName, testDocumentName, { tags: ['a'] });
+    const after: any = await database.get(testCollectionName, testDocumentName);
+    expect(after._version).to.be.greaterThan(before._version);
+  });
+
+  it('should only write a matching version', async () => {
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    const success = await database.update(testCollectionName, testDocumentName, { tags: ['a'] }, {
+      ifVersion: document._version,
+    });
+    expect(success).to.be.true;
+
+    const error = await expectConflict(database.set(testCollectionName, testDocumentName, { tags: ['b'] }, {
+      ifVersion: document._version,
+    }));
+    expect(error.statusCode).to.eq(409);
+    expect(error.currentVersion).to.be.greaterThan(document._version);
+
+    // The conflict drops the stale cached copy
+    const reread: any = await database.get(testCollectionName, testDocumentName);
+    expect(reread.tags).to.deep.equal(['a']);
+  });
+
+  it('should only create documents that do not exist', async () => {
+    await expectConflict(database.set(testCollectionName, testDocumentName, {}, { ifNotExists: true }));
+    const success = await database.set(testCollectionName, 'NEW', { tags: [] }, { ifNotExists: true });
+    expect(success).to.be.true;
+  });
+
+  it('should fail a transaction whose condition does not hold', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'NEW', {});
+    await transaction.update(testCollectionName, testDocumentName, { tags: ['a'] }, { ifVersion: -1 });
+
+    try {
+      await transaction.commit();
+      throw new Error('expected commit to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TransactionError);
+      expect(conflictOf(err)).to.be.instanceOf(ConflictError);
+    }
+  });
+
+  it('should retry a read-modify-write until it applies', async () => {
+    const addTag = (tag: string) => database.runWithRetry(async () => {
+      const document: any = await database.get(testCollectionName, testDocumentName);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await database.set(testCollectionName, testDocumentName, { tags: document.tags.concat([tag]) }, {
+        ifVersion: document._version,
+      });
+    }, { attempts: 10, delay: 1 });
+
+    await Promise.all([addTag('a'), addTag('b'), addTag('c')]);
+
+    const document: any = await database.get(testCollectionName, testDocumentName);
+    expect(document.tags.slice().sort()).to.deep.equal(['a', 'b', 'c']);
+  });
+
+  it('should give up after the last attempt', async () => {
+    let attempts = 0;
+    await expectConflict(database.runWithRetry(async () => {
+      attempts += 1;
+      await database.update(testCollectionName, testDocumentName, {}, { ifVersion: -1 });
+    }, { attempts: 3, delay: 0 }));
+    expect(attempts).to.eq(3);
+  });
+
+  it('should reject an ifVersion that is undefined instead of dropping it', async () => {
+    try {
+      await database.set(testCollectionName, testDocumentName, {}, { ifVersion: undefined });
+      throw new Error('expected set to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(ValidationError);
+    }
+  });
+
+  it('should only send conditions to HTTP backends that declare preconditions', async () => {
+    const sent: any[] = [];
+    const transport: HttpTransport = {
+      send: async (request) => {
+        sent.push(JSON.parse(String(request.body)));
+        return { statusCode: 200, headers: {}, body: '{}' };
+      },
+    };
+    const open = (backend: HttpBackend) => new DatabaseAdapter({
+      backend,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      baseUrl: 'https://database.example.com',
+    });
+
+    try {
+      await open(new HttpBackend(transport)).set(testCollectionName, testDocumentName, {}, { ifVersion: 1 });
+      throw new Error('expected set to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(UnsupportedFeatureError);
+      expect(err.feature).to.eq('preconditions');
+    }
+    expect(sent).to.deep.equal([]);
+
+    await open(new HttpBackend(transport, { preconditions: true }))
+      .set(testCollectionName, testDocumentName, {}, { ifVersion: 1 });
+    expect(sent[0].precondition).to.deep.equal({ version: 1 });
+  });
+});
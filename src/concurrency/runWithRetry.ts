@@ -0,0 +1,55 @@
+import { ConflictError, DatabaseError, TransactionError } from '../errors/DatabaseError';
+import { sleep } from '../retry/RetryPolicy';
+
+export interface ConflictRetryOptions {
+  // Total attempts, including the first. Defaults to 5.
+  attempts?: number;
+
+  // Milliseconds to wait before the first retry, doubled for each one after,
+  // with jitter. Defaults to 20.
+  delay?: number;
+
+  // Called with each conflict that's about to be retried
+  onConflict?: (error: DatabaseError, attempt: number) => void;
+}
+
+// The `ConflictError` behind `err`, whether it came from a single write or
+// from a transaction commit
+export function conflictOf(err: any): ConflictError | undefined {
+  if (err instanceof ConflictError) {
+    return err;
+  }
+  if (err instanceof TransactionError && err.cause instanceof ConflictError) {
+    return err.cause;
+  }
+  return undefined;
+}
+
+// Run a read-modify-write `operation`, running it again from the start when a
+// conditional write in it conflicts. Any other failure is thrown straight away.
+//
+//   await runWithRetry(async () => {
+//     const profile = await database.get<Profile>('profiles', id, { cache: false });
+//     await database.set('profiles', id, addBadge(profile), { ifVersion: profile._version });
+//   });
+export async function runWithRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: ConflictRetryOptions = {},
+): Promise<T> {
+  const attempts = options.attempts || 5;
+  const delay = options.delay !== undefined ? options.delay : 20;
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await operation(attempt);
+    } catch (err) {
+      if (!conflictOf(err) || attempt >= attempts) {
+        throw err;
+      }
+      if (options.onConflict) {
+        options.onConflict(err, attempt);
+      }
+      await sleep(delay * Math.pow(2, attempt - 1) * (0.5 + Math.random() / 2));
+    }
+  }
+}
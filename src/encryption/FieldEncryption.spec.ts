@@ -0,0 +1,151 @@
+import * as crypto from 'crypto';
+import { PassThrough } from 'stream';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { EncryptionError } from '../errors/DatabaseError';
+import { EncryptionOptions, isEncryptedValue } from './FieldEncryption';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Field encryption', () => {
+  const oldKey = crypto.randomBytes(32);
+  const newKey = crypto.randomBytes(32).toString('base64');
+  const backend = new MemoryBackend();
+  const plain = new DatabaseAdapter({ backend, projectId: 'test-project', projectToken: 'test-token' });
+
+  const open = (encryption: EncryptionOptions) => new DatabaseAdapter({
+    backend,
+    encryption,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  });
+  const collections = { users: ['email', 'payout.iban', 'phones'] };
+  let database: DatabaseAdapter;
+
+  beforeEach(async () => {
+    backend.reset();
+    database = open({ collections, keys: { k1: oldKey }, currentKeyId: 'k1' });
+    await database.set('users', 'ada', {
+      name: 'Ada',
+      email: 'ada@example.com',
+      payout: { iban: 'GB00 0000', currency: 'GBP' },
+      phones: ['555-0100'],
+    });
+  });
+
+  it('should store configured fields encrypted', async () => {
+    const stored: any = await plain.get('users', 'ada');
+    expect(stored.name).to.eq('Ada');
+    expect(stored.payout.currency).to.eq('GBP');
+    expect(isEncryptedValue(stored.email)).to.be.true;
+    expect(stored.email.keyId).to.eq('k1');
+    expect(isEncryptedValue(stored.payout.iban)).to.be.true;
+    expect(isEncryptedValue(stored.phones[0])).to.be.true;
+    expect(JSON.stringify(stored)).to.not.contain('ada@example.com');
+  });
+
+  it('should decrypt on every read', async () => {
+    const document: any = await database.get('users', 'ada');
+    expect(document.email).to.eq('ada@example.com');
+    expect(document.payout).to.deep.equal({ iban: 'GB00 0000', currency: 'GBP' });
+    expect(document.phones).to.deep.equal(['555-0100']);
+
+    const [all]: any[] = await database.getAll('users', ['ada']);
+    expect(all.email).to.eq('ada@example.com');
+
+    const [matching]: any = await database.getWhere('users', 'name', '==', 'Ada');
+    expect(matching.email).to.eq('ada@example.com');
+
+    const [found]: any = await database.search('users', 'name', 'ad');
+    expect(found.payout.iban).to.eq('GB00 0000');
+
+    const { documents } = await database.collection('users').get();
+    expect(documents[0].email).to.eq('ada@example.com');
+  });
+
+  it('should encrypt updates and array pushes', async () => {
+    await database.update('users', 'ada', { email: 'ada@example.org', 'payout.iban': 'GB11 1111' });
+    await database.arrayPush('users', 'ada', { phones: '555-0199' });
+
+    const stored: any = await plain.get('users', 'ada');
+    expect(isEncryptedValue(stored.email)).to.be.true;
+    expect(isEncryptedValue(stored.payout.iban)).to.be.true;
+    expect(isEncryptedValue(stored.phones[1])).to.be.true;
+
+    const document: any = await database.get('users', 'ada');
+    expect(document.email).to.eq('ada@example.org');
+    expect(document.payout.iban).to.eq('GB11 1111');
+    expect(document.phones).to.deep.equal(['555-0100', '555-0199']);
+  });
+
+  it('should reject operations that need the plaintext', async () => {
+    const attempts = [
+      () => database.getWhere('users', 'email', '==', 'ada@example.com'),
+      () => database.getAllWhere('users', 'payout', '==', []),
+      () => database.search('users', 'email', 'ada'),
+      () => database.collection('users').orderBy('payout.iban').get(),
+      () => database.update('users', 'ada', { email: DatabaseAdapter.valueTypes.increment(1) }),
+      () => database.arrayRemove('users', 'ada', { phones: '555-0100' }),
+    ];
+
+    for (const attempt of attempts) {
+      try {
+        await attempt();
+        throw new Error('expected an EncryptionError');
+      } catch (err) {
+        expect(err).to.be.instanceOf(EncryptionError);
+      }
+    }
+  });
+
+  it('should fail to read values encrypted with an unknown key', async () => {
+    const other = open({ collections, keys: { k2: newKey }, currentKeyId: 'k2' });
+    try {
+      await other.get('users', 'ada');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(EncryptionError);
+      expect(err.field).to.eq('email');
+    }
+  });
+
+  it('should re-encrypt a collection with a new key', async () => {
+    await plain.set('users', 'grace', { name: 'Grace', email: 'grace@example.com' });
+    const rotated = open({ collections, keys: { k1: oldKey, k2: newKey }, currentKeyId: 'k2' });
+
+    const report = await rotated.rotateKey('users');
+    expect(report.succeeded).to.eq(2);
+    expect((await rotated.rotateKey('users')).results.length).to.eq(0);
+
+    const stored: any = await plain.get('users', 'ada');
+    expect(stored.email.keyId).to.eq('k2');
+    expect(stored.payout.iban.keyId).to.eq('k2');
+    expect(stored.phones[0].keyId).to.eq('k2');
+    const grace: any = await plain.get('users', 'grace');
+    expect(grace.email.keyId).to.eq('k2');
+
+    const newOnly = open({ collections, keys: { k2: newKey }, currentKeyId: 'k2' });
+    const document: any = await newOnly.get('users', 'ada');
+    expect(document.email).to.eq('ada@example.com');
+    expect(document.payout.currency).to.eq('GBP');
+  });
+
+  it('should export encrypted fields as stored and import them unchanged', async () => {
+    const backup = new PassThrough();
+    await database.exportCollections(backup, { collections: ['users'] });
+    const text = String(backup.read());
+    expect(text).to.not.contain('ada@example.com');
+    expect(text).to.not.contain('GB00 0000');
+
+    backend.reset();
+    backup.end(text);
+    await database.importCollections(backup);
+
+    const stored: any = await plain.get('users', 'ada');
+    expect(stored.email.keyId).to.eq('k1');
+    expect(stored.phones[0].keyId).to.eq('k1');
+    const document: any = await database.get('users', 'ada');
+    expect(document.email).to.eq('ada@example.com');
+    expect(document.phones).to.deep.equal(['555-0100']);
+  });
+});
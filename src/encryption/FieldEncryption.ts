@@ -0,0 +1,236 @@
+import * as crypto from 'crypto';
+
+import { EncryptionError } from '../errors/DatabaseError';
+import { isValueMarker } from '../values/valueTypes';
+
+export interface EncryptionOptions {
+  // AES-256 keys by id, as 32-byte Buffers or base64 strings. Keep a retired
+  // key here until `rotateKey` has re-encrypted everything written with it.
+  keys: { [keyId: string]: Buffer | string };
+
+  // The key new values are encrypted with
+  currentKeyId: string;
+
+  // The fields to encrypt in each collection. Nested fields use dotted paths
+  // ('payout.iban').
+  collections: { [collection: string]: string[] };
+}
+
+// What's stored in place of an encrypted value. Arrays are encrypted element
+// by element, so `arrayPush` keeps working.
+export interface EncryptedValue {
+  _encrypted: 'aes-256-gcm';
+  keyId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export type EncryptedWrite = 'set' | 'update' | 'arrayPush' | 'arrayRemove';
+
+const algorithm = 'aes-256-gcm';
+
+// Encrypts the configured fields of documents on their way to the service and
+// decrypts them on the way back. Each value is bound to its collection and
+// field, so ciphertext copied into another field won't decrypt.
+export class FieldEncryption {
+  private readonly keys: { [keyId: string]: Buffer } = {};
+  private readonly currentKeyId: string;
+  private readonly collections: { [collection: string]: string[] };
+
+  constructor(options: EncryptionOptions) {
+    Object.keys(options.keys).forEach((keyId) => {
+      const key = options.keys[keyId];
+      this.keys[keyId] = typeof key === 'string' ? Buffer.from(key, 'base64') : key;
+      if (this.keys[keyId].length !== 32) {
+        throw new Error(`Encryption key ${keyId} must be 32 bytes`);
+      }
+    });
+    if (!this.keys[options.currentKeyId]) {
+      throw new Error(`Unknown current encryption key ${options.currentKeyId}`);
+    }
+
+    this.currentKeyId = options.currentKeyId;
+    this.collections = options.collections;
+  }
+
+  public fieldsOf(collection: string): string[] {
+    return this.collections[collection] || [];
+  }
+
+  // Encrypt the configured fields in a write body. Keys may be dotted paths,
+  // as in `update`.
+  public encryptWrite(collection: string, documentBody: any, write: EncryptedWrite): any {
+    const fields = this.fieldsOf(collection);
+    if (fields.length === 0 || !documentBody || typeof documentBody !== 'object') {
+      return documentBody;
+    }
+
+    const result = { ...documentBody };
+    Object.keys(documentBody).forEach((key) => {
+      fields.forEach((field) => {
+        if (field === key) {
+          result[key] = this.encryptField(collection, field, result[key], write);
+        } else if (field.indexOf(`${key}.`) === 0) {
+          result[key] = mapPath(
+            result[key],
+            field.slice(key.length + 1),
+            value => this.encryptField(collection, field, value, write),
+          );
+        } else if (key.indexOf(`${field}.`) === 0) {
+          throw new EncryptionError(`Can't write inside encrypted field ${field}`, field, { collection });
+        }
+      });
+    });
+    return result;
+  }
+
+  public decryptDocument(collection: string, document: any): any {
+    const fields = this.fieldsOf(collection);
+    if (fields.length === 0 || !document || typeof document !== 'object') {
+      return document;
+    }
+
+    return fields.reduce(
+      (result, field) => mapPath(result, field, value => this.decryptField(collection, field, value, document._id)),
+      document,
+    );
+  }
+
+  // Predicates compare stored values, which for these fields are ciphertext
+  public assertQueryable(collection: string, key: string) {
+    const field = this.fieldsOf(collection)
+      .filter(field => field === key || key.indexOf(`${field}.`) === 0 || field.indexOf(`${key}.`) === 0)[0];
+    if (field) {
+      throw new EncryptionError(
+        `Can't query on ${key} in ${collection}: ${field} is encrypted`,
+        field,
+        { collection },
+      );
+    }
+  }
+
+  // Whether a stored document has a configured field that's still in
+  // plaintext or encrypted with a key other than the current one
+  public needsRotation(collection: string, document: any): boolean {
+    return this.fieldsOf(collection).some((field) => {
+      const value = valueAt(document, field);
+      const values = Array.isArray(value) ? value : [value];
+      return values.some(element => isEncryptedValue(element)
+        ? element.keyId !== this.currentKeyId
+        : element !== undefined && element !== null);
+    });
+  }
+
+  // The decrypted value of each configured field a stored document has, keyed
+  // by field path, ready to be written back with `update`
+  public plaintextFields(collection: string, document: any): { [field: string]: any } {
+    const decrypted = this.decryptDocument(collection, document);
+    const result: { [field: string]: any } = {};
+    this.fieldsOf(collection).forEach((field) => {
+      const value = valueAt(decrypted, field);
+      if (value !== undefined) {
+        result[field] = value;
+      }
+    });
+    return result;
+  }
+
+  // Values that are already encrypted, e.g. from an export, are written as
+  // they are rather than encrypted twice
+  private encryptField(collection: string, field: string, value: any, write: EncryptedWrite): any {
+    if (value === undefined || value === null || isEncryptedValue(value)) {
+      return value;
+    }
+    if (write === 'arrayRemove') {
+      throw new EncryptionError(`Can't remove elements from encrypted field ${field}`, field, { collection });
+    }
+    if (isValueMarker(value)) {
+      if (value._updateType === 'delete') {
+        return value;
+      }
+      if (value._updateType === 'setIfAbsent') {
+        return { ...value, value: this.encryptField(collection, field, value.value, write) };
+      }
+      throw new EncryptionError(`Can't apply ${value._updateType} to encrypted field ${field}`, field, { collection });
+    }
+    if (Array.isArray(value) && write !== 'arrayPush') {
+      return value.map(element => isEncryptedValue(element) ? element : this.encrypt(collection, field, element));
+    }
+    return this.encrypt(collection, field, value);
+  }
+
+  private decryptField(collection: string, field: string, value: any, documentName?: string): any {
+    if (Array.isArray(value)) {
+      return value.map(element => isEncryptedValue(element)
+        ? this.decrypt(collection, field, element, documentName)
+        : element);
+    }
+    return isEncryptedValue(value) ? this.decrypt(collection, field, value, documentName) : value;
+  }
+
+  private encrypt(collection: string, field: string, value: any): EncryptedValue {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(algorithm, this.keys[this.currentKeyId], iv);
+    cipher.setAAD(Buffer.from(`${collection}/${field}`, 'utf8'));
+    const data = Buffer.concat([cipher.update(Buffer.from(JSON.stringify(value), 'utf8')), cipher.final()]);
+
+    return {
+      _encrypted: algorithm,
+      keyId: this.currentKeyId,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  private decrypt(collection: string, field: string, value: EncryptedValue, documentName?: string): any {
+    const key = this.keys[value.keyId];
+    if (!key) {
+      throw new EncryptionError(
+        `Unknown encryption key ${value.keyId} for ${field}`,
+        field,
+        { collection, documentName },
+      );
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(algorithm, key, Buffer.from(value.iv, 'base64'));
+      decipher.setAAD(Buffer.from(`${collection}/${field}`, 'utf8'));
+      decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]);
+      return JSON.parse(data.toString('utf8'));
+    } catch (err) {
+      throw new EncryptionError(`Couldn't decrypt ${field}`, field, { collection, documentName, cause: err });
+    }
+  }
+}
+
+export function isEncryptedValue(value: any): value is EncryptedValue {
+  return !!value && typeof value === 'object' && value._encrypted === algorithm;
+}
+
+// A copy of `target` with the value at a dotted path replaced by `transform`
+// of it. Paths that don't exist are left alone.
+function mapPath(target: any, path: string, transform: (value: any) => any): any {
+  if (!target || typeof target !== 'object' || Array.isArray(target)) {
+    return target;
+  }
+
+  const dot = path.indexOf('.');
+  const key = dot === -1 ? path : path.slice(0, dot);
+  if (!(key in target)) {
+    return target;
+  }
+  return {
+    ...target,
+    [key]: dot === -1 ? transform(target[key]) : mapPath(target[key], path.slice(dot + 1), transform),
+  };
+}
+
+function valueAt(document: any, path: string): any {
+  return path.split('.').reduce(
+    (value, key) => (value !== null && typeof value === 'object' ? value[key] : undefined),
+    document,
+  );
+}
@@ -0,0 +1,93 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import {
+  ConflictError,
+  DatabaseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+  toDatabaseError,
+} from './DatabaseError';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Database errors', () => {
+  it('should map status codes to error classes', () => {
+    expect(toDatabaseError({ statusCode: 404 })).to.be.instanceOf(NotFoundError);
+    expect(toDatabaseError({ statusCode: 401 })).to.be.instanceOf(UnauthorizedError);
+    expect(toDatabaseError({ statusCode: 403 })).to.be.instanceOf(UnauthorizedError);
+    expect(toDatabaseError({ statusCode: 400 })).to.be.instanceOf(ValidationError);
+    expect(toDatabaseError({ statusCode: 409 })).to.be.instanceOf(ConflictError);
+    expect(toDatabaseError({ statusCode: 502 })).to.be.instanceOf(ServerError);
+    expect(toDatabaseError({ statusCode: 502 })).to.be.instanceOf(DatabaseError);
+  });
+
+  it('should map connection failures to network errors', () => {
+    const reset = toDatabaseError({ name: 'RequestError', cause: { code: 'ECONNRESET' } });
+    expect(reset).to.be.instanceOf(NetworkError);
+    expect(reset).to.not.be.instanceOf(TimeoutError);
+
+    const timeout = toDatabaseError({ name: 'RequestError', cause: { code: 'ETIMEDOUT' } });
+    expect(timeout).to.be.instanceOf(TimeoutError);
+  });
+
+  it('should read Retry-After from rate limited responses', () => {
+    const error = toDatabaseError({
+      statusCode: 429,
+      response: { headers: { 'retry-after': '2' } },
+    }) as RateLimitError;
+    expect(error).to.be.instanceOf(RateLimitError);
+    expect(error.retryAfter).to.eq(2000);
+  });
+
+  it('should keep the status code, response body and cause', () => {
+    const cause = { statusCode: 422, error: { message: 'documentBody is required' } };
+    const error = toDatabaseError(cause, { endpoint: '/v1/store/set' });
+    expect(error.message).to.eq('documentBody is required');
+    expect(error.statusCode).to.eq(422);
+    expect(error.endpoint).to.eq('/v1/store/set');
+    expect(error.responseBody).to.deep.equal(cause.error);
+    expect(error.cause).to.eq(cause);
+  });
+
+  describe('from the adapter', () => {
+    const config = {
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      backend: new MemoryBackend(),
+    };
+
+    it('should annotate read errors with the document', async () => {
+      const database = new DatabaseAdapter(config);
+      try {
+        await database.get('TEST_COLLECTION', 'MISSING');
+        throw new Error('expected get to throw');
+      } catch (err) {
+        expect(err).to.be.instanceOf(NotFoundError);
+        expect(err.endpoint).to.eq('/v1/store/get');
+        expect(err.collection).to.eq('TEST_COLLECTION');
+        expect(err.documentName).to.eq('MISSING');
+      }
+    });
+
+    it('should return false from failed writes by default', async () => {
+      const database = new DatabaseAdapter(config);
+      expect(await database.update('TEST_COLLECTION', 'MISSING', {})).to.be.false;
+    });
+
+    it('should throw from failed writes when configured to', async () => {
+      const database = new DatabaseAdapter({ ...config, throwOnWriteError: true });
+      try {
+        await database.update('TEST_COLLECTION', 'MISSING', {});
+        throw new Error('expected update to throw');
+      } catch (err) {
+        expect(err).to.be.instanceOf(NotFoundError);
+        expect(err.endpoint).to.eq('/v1/store/update');
+      }
+    });
+  });
+});
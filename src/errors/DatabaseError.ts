@@ -0,0 +1,295 @@
+export interface DatabaseErrorContext {
+  statusCode?: number;
+  endpoint?: string;
+  collection?: string;
+  documentName?: string | null;
+  responseBody?: any;
+  cause?: any;
+}
+
+// Base class for every error thrown by the SDK. Carries whatever is known about
+// the failed request so callers can tell e.g. a bad project token from an
+// outage without parsing messages.
+export class DatabaseError extends Error {
+  public readonly statusCode?: number;
+  public readonly endpoint?: string;
+  public readonly collection?: string;
+  public readonly documentName?: string | null;
+  public readonly responseBody?: any;
+  public readonly cause?: any;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message);
+
+    // Restore the prototype chain, which is lost when extending built-ins
+    // and compiling to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+
+    this.statusCode = context.statusCode;
+    this.endpoint = context.endpoint;
+    this.collection = context.collection;
+    this.documentName = context.documentName;
+    this.responseBody = context.responseBody;
+    this.cause = context.cause;
+  }
+}
+
+// 404: the document (or collection) does not exist
+export class NotFoundError extends DatabaseError {
+  constructor(context: DatabaseErrorContext = {}) {
+    super('Document not found', context);
+  }
+}
+
+// 401/403: the project id or token was rejected
+export class UnauthorizedError extends DatabaseError {
+  constructor(context: DatabaseErrorContext = {}) {
+    super('Unauthorized: check KOJI_PROJECT_ID and KOJI_PROJECT_TOKEN', context);
+  }
+}
+
+// 400/422: the service rejected the request body
+export class ValidationError extends DatabaseError {
+  constructor(message: string = 'Invalid request', context: DatabaseErrorContext = {}) {
+    super(message, context);
+  }
+}
+
+// A document failed the collection's schema, before it was written or after
+// it was read. Nothing was sent to the service for a failed write.
+export class SchemaValidationError extends ValidationError {
+  public readonly issues: string[];
+
+  constructor(issues: string[], context: DatabaseErrorContext = {}) {
+    super(`Schema validation failed: ${issues.join('; ')}`, context);
+    this.issues = issues;
+  }
+}
+
+// An upload was over the size limit, so it wasn't sent (or was cut off as soon
+// as it passed the limit). `size` is unknown for streams.
+export class UploadTooLargeError extends ValidationError {
+  public readonly maxSize: number;
+  public readonly size?: number;
+
+  constructor(maxSize: number, size?: number, context: DatabaseErrorContext = {}) {
+    super(
+      size !== undefined
+        ? `Upload of ${size} bytes is over the ${maxSize} byte limit`
+        : `Upload is over the ${maxSize} byte limit`,
+      context,
+    );
+    this.maxSize = maxSize;
+    this.size = size;
+  }
+}
+
+// 429: too many requests. `retryAfter` is in milliseconds when the service
+// supplied a Retry-After header.
+export class RateLimitError extends DatabaseError {
+  public readonly retryAfter?: number;
+
+  constructor(context: DatabaseErrorContext = {}, retryAfter?: number) {
+    super('Rate limited', context);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The request never got a response (DNS, connection reset, ...)
+export class NetworkError extends DatabaseError {
+  constructor(message: string = 'Network error', context: DatabaseErrorContext = {}) {
+    super(message, context);
+  }
+}
+
+// The request did not complete in time
+export class TimeoutError extends NetworkError {
+  constructor(context: DatabaseErrorContext = {}) {
+    super('Request timed out', context);
+  }
+}
+
+// The caller cancelled the request through its AbortSignal
+export class AbortError extends DatabaseError {
+  constructor(context: DatabaseErrorContext = {}) {
+    super('Request aborted', context);
+  }
+}
+
+// 409: a conditional write (`ifVersion`, `ifNotExists`) didn't apply because
+// the document changed or already exists. `currentVersion` is the document's
+// version when the service reports it.
+export class ConflictError extends DatabaseError {
+  public readonly currentVersion?: number;
+
+  constructor(message: string = 'Write conflict', context: DatabaseErrorContext = {}, currentVersion?: number) {
+    super(message, context);
+    this.currentVersion = currentVersion;
+  }
+}
+
+// A transaction was rejected and none of its operations were applied.
+// `operationIndex` and `operation` identify the write that failed, when the
+// service reports it; `cause` holds the error for that write.
+export class TransactionError extends DatabaseError {
+  public readonly operationIndex?: number;
+  public readonly operation?: string;
+
+  constructor(context: DatabaseErrorContext = {}, operationIndex?: number, operation?: string) {
+    super(
+      operationIndex === undefined
+        ? 'Transaction failed'
+        : `Transaction failed at operation ${operationIndex} (${operation})`,
+      context,
+    );
+    this.operationIndex = operationIndex;
+    this.operation = operation;
+  }
+}
+
+// The service couldn't be reached, so the write was kept in the outbox and
+// will be replayed; `cause` holds the failure. Don't send the write again:
+// it would be applied twice. `entryId` identifies it in `pendingWrites()`.
+export class QueuedWriteError extends DatabaseError {
+  public readonly entryId: string;
+
+  constructor(entryId: string, context: DatabaseErrorContext = {}) {
+    super('Write queued in the outbox', context);
+    this.entryId = entryId;
+  }
+}
+
+// Another migration runner holds the lock. `owner` and `expiresAt` are read
+// from the lock document.
+export class MigrationLockError extends DatabaseError {
+  public readonly owner?: string;
+  public readonly expiresAt?: number;
+
+  constructor(context: DatabaseErrorContext = {}, owner?: string, expiresAt?: number) {
+    super(`Migrations are locked${owner ? ` by ${owner}` : ''}`, context);
+    this.owner = owner;
+    this.expiresAt = expiresAt;
+  }
+}
+
+// A request needed a `BackendFeatures` entry the backend doesn't declare, so
+// it was never sent
+export class UnsupportedFeatureError extends DatabaseError {
+  public readonly feature: string;
+
+  constructor(feature: string, message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.feature = feature;
+  }
+}
+
+// The service reported that a transcode failed. `callbackToken` identifies the
+// task that failed.
+export class TranscodeError extends DatabaseError {
+  public readonly callbackToken?: string;
+
+  constructor(message: string, callbackToken?: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.callbackToken = callbackToken;
+  }
+}
+
+// A field configured for encryption couldn't be decrypted (unknown key id,
+// or a ciphertext that was tampered with), or was used in a way that can't
+// work on ciphertext, such as a query predicate or an increment. `field` is
+// the configured field path.
+export class EncryptionError extends DatabaseError {
+  public readonly field?: string;
+
+  constructor(message: string, field?: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.field = field;
+  }
+}
+
+// 5xx, or any other unexpected response
+export class ServerError extends DatabaseError {
+  constructor(context: DatabaseErrorContext = {}) {
+    super(`Service error${context.statusCode ? ` (${context.statusCode})` : ''}`, context);
+  }
+}
+
+const timeoutCodes = ['ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+
+// Map a failure from the backend onto the matching error class: a
+// `statusCodeError` for a non-2xx response, or the transport's own error
+// (with a `code` such as 'ECONNRESET') when no response arrived
+export function toDatabaseError(err: any, context: DatabaseErrorContext = {}): DatabaseError {
+  if (err instanceof DatabaseError) {
+    return err;
+  }
+
+  const statusCode: number | undefined = err && err.statusCode;
+  const fullContext: DatabaseErrorContext = {
+    ...context,
+    statusCode,
+    responseBody: err && err.error,
+    cause: err,
+  };
+
+  if (!statusCode) {
+    const code = err && (err.code || (err.cause && err.cause.code));
+    if (timeoutCodes.indexOf(code) !== -1) {
+      return new TimeoutError(fullContext);
+    }
+    return new NetworkError(`Network error${code ? ` (${code})` : ''}`, fullContext);
+  }
+
+  switch (statusCode) {
+    case 404:
+      return new NotFoundError(fullContext);
+    case 401:
+    case 403:
+      return new UnauthorizedError(fullContext);
+    case 400:
+    case 422:
+      return new ValidationError(responseMessage(err) || 'Invalid request', fullContext);
+    case 409:
+      return new ConflictError(
+        responseMessage(err) || 'Write conflict',
+        fullContext,
+        err.error && typeof err.error.currentVersion === 'number' ? err.error.currentVersion : undefined,
+      );
+    case 429:
+      return new RateLimitError(fullContext, parseRetryAfter(err.response && err.response.headers));
+    default:
+      return new ServerError(fullContext);
+  }
+}
+
+// Retry-After may be a number of seconds or an HTTP date
+export function parseRetryAfter(headers?: { [key: string]: any }): number | undefined {
+  const value = headers && headers['retry-after'];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function responseMessage(err: any): string | undefined {
+  const body = err && err.error;
+  if (body && typeof body === 'object' && typeof body.message === 'string') {
+    return body.message;
+  }
+  if (typeof body === 'string' && body.length > 0) {
+    return body;
+  }
+  return undefined;
+}
@@ -0,0 +1,104 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { NotFoundError, ValidationError } from '../errors/DatabaseError';
+import { parseDuration } from './expiry';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Expiring documents', () => {
+  const backend = new MemoryBackend();
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+    cache: {},
+  });
+  const past = Date.now() - 1000;
+
+  beforeEach(async () => {
+    backend.reset();
+    database.invalidate('sessions');
+    database.invalidate('limits');
+    await database.set('sessions', 'live', { user: 'ada' }, { expiresIn: '1h' });
+    await database.set('sessions', 'stale', { user: 'ada' }, { expiresAt: past });
+    await database.set('sessions', 'forever', { user: 'ada' });
+  });
+
+  it('should parse durations', () => {
+    expect(parseDuration(250)).to.eq(250);
+    expect(parseDuration('500ms')).to.eq(500);
+    expect(parseDuration('30s')).to.eq(30000);
+    expect(parseDuration('15m')).to.eq(900000);
+    expect(parseDuration('24h')).to.eq(86400000);
+    expect(parseDuration('7d')).to.eq(604800000);
+    expect(() => parseDuration('soon')).to.throw(ValidationError);
+  });
+
+  it('should store the expiry on the document', async () => {
+    const document: any = await database.get('sessions', 'live');
+    expect(document._expiresAt).to.be.within(Date.now() + 3590000, Date.now() + 3600000);
+
+    const forever: any = await database.get('sessions', 'forever');
+    expect(forever).to.not.have.property('_expiresAt');
+  });
+
+  it('should treat expired documents as not found', async () => {
+    try {
+      await database.get('sessions', 'stale');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(NotFoundError);
+      expect(err.documentName).to.eq('stale');
+    }
+
+    const all: any[] = await database.getAll('sessions', ['live', 'stale', 'forever']);
+    expect(all.map(({ _id }) => _id)).to.deep.equal(['live', 'forever']);
+
+    const matching: any = await database.getWhere('sessions', 'user', '==', 'ada');
+    expect(matching.length).to.eq(2);
+
+    const found: any = await database.search('sessions', 'user', 'ada');
+    expect(found.length).to.eq(2);
+
+    const { documents } = await database.collection('sessions').get();
+    expect(documents.length).to.eq(2);
+  });
+
+  it('should expire a cached read', async () => {
+    await database.set('limits', 'window', { count: 1 }, { expiresAt: Date.now() + 30 });
+    await database.get('limits', 'window');
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    try {
+      await database.get('limits', 'window');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(NotFoundError);
+    }
+  });
+
+  it('should change or remove an expiry on update', async () => {
+    await database.update('sessions', 'stale', { user: 'grace' }, { expiresIn: '1h' });
+    const renewed: any = await database.get('sessions', 'stale');
+    expect(renewed.user).to.eq('grace');
+
+    await database.update('sessions', 'live', {}, { expiresAt: null });
+    const kept: any = await database.get('sessions', 'live');
+    expect(kept).to.not.have.property('_expiresAt');
+  });
+
+  it('should purge expired documents', async () => {
+    await database.set('limits', 'old', { count: 3 }, { expiresAt: new Date(past) });
+    await database.set('limits', 'current', { count: 1 }, { expiresIn: 60000 });
+
+    const report = await database.purgeExpired();
+    expect(report.succeeded).to.eq(2);
+    expect(report.failed).to.eq(0);
+    expect(report.results.map(({ documentName }) => documentName).sort()).to.deep.equal(['old', 'stale']);
+
+    const remaining: any = await database.getWhere('sessions', 'user', '==', 'ada', { cache: false });
+    expect(remaining.length).to.eq(2);
+    const again = await database.purgeExpired('limits');
+    expect(again.results.length).to.eq(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { ExpiryOptions } from '../adapter/RequestOptions';
+import { ValidationError } from '../errors/DatabaseError';
+import { valueTypes } from '../values/valueTypes';
+
+// The field that holds a document's expiry, in milliseconds since the epoch
+export const expiresAtKey = '_expiresAt';
+
+const units: { [unit: string]: number } = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Milliseconds in `duration`, which is either a number of milliseconds or a
+// string such as '500ms', '30s', '15m', '24h' or '7d'
+export function parseDuration(duration: number | string): number {
+  if (typeof duration === 'number') {
+    return duration;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)\s*$/.exec(duration);
+  if (!match) {
+    throw new ValidationError(`Invalid duration: ${duration}`);
+  }
+  return Number(match[1]) * units[match[2]];
+}
+
+// `documentBody` with its expiry set from `options`. On an update,
+// `expiresAt: null` removes an existing expiry.
+export function withExpiry(documentBody: any, options: ExpiryOptions, isUpdate: boolean): any {
+  const { expiresIn, expiresAt } = options;
+  if (expiresIn !== undefined) {
+    return { ...documentBody, [expiresAtKey]: Date.now() + parseDuration(expiresIn) };
+  }
+  if (expiresAt instanceof Date || typeof expiresAt === 'number') {
+    return { ...documentBody, [expiresAtKey]: new Date(expiresAt).getTime() };
+  }
+  if (expiresAt === null && isUpdate) {
+    return { ...documentBody, [expiresAtKey]: valueTypes.delete() };
+  }
+  return documentBody;
+}
+
+export function isExpired(document: any, now: number = Date.now()): boolean {
+  return !!document
+    && typeof document[expiresAtKey] === 'number'
+    && document[expiresAtKey] <= now;
+}
+
+export function withoutExpired<T>(documents: T[], now: number = Date.now()): T[] {
+  return documents.filter(document => !isExpired(document, now));
+}
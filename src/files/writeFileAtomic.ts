@@ -0,0 +1,10 @@
+import * as fs from 'fs';
+
+// Replace `filePath` with `contents` by writing a temporary file beside it and
+// renaming that over the original, so a crash mid-write leaves either the old
+// file or the new one, never a truncated mix of the two
+export function writeFileAtomic(filePath: string, contents: string) {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, contents);
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,192 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { NotFoundError } from '../errors/DatabaseError';
+import { pruneEntries, stateAt } from './history';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Document history', () => {
+  const backend = new MemoryBackend();
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+    history: { collections: ['settings'], actor: 'api' },
+  });
+
+  beforeEach(() => backend.reset());
+
+  it('should record each write with the document before and after', async () => {
+    await database.set('settings', 'theme', { color: 'red' });
+    await database.update('settings', 'theme', { color: 'blue' }, { actor: 'ada' });
+    await database.delete('settings', 'theme');
+
+    const history = await database.getHistory('settings', 'theme');
+    expect(history.map(entry => entry.operation)).to.deep.equal(['delete', 'update', 'set']);
+    expect(history.map(entry => entry.actor)).to.deep.equal(['api', 'ada', 'api']);
+    expect(history[2].previous).to.eq(null);
+    expect(history[2].current).to.deep.equal({ color: 'red' });
+    expect(history[1].previous).to.deep.equal({ color: 'red' });
+    expect(history[1].current).to.deep.equal({ color: 'blue' });
+    expect(history[0].current).to.eq(null);
+    expect(history[0].timestamp).to.be.above(history[1].timestamp);
+  });
+
+  it('should only read back documents whose contents the write leaves unknown', async () => {
+    const reads: string[] = [];
+    const counting = new DatabaseAdapter({
+      backend: {
+        request: (options) => {
+          if (String(options.uri).endsWith('/v1/store/get') && options.body.collection === 'settings') {
+            reads.push(options.body.documentName);
+          }
+          return backend.request(options);
+        },
+      },
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      history: { collections: ['settings'] },
+    });
+
+    await counting.set('settings', 'theme', { color: 'red' });
+    expect(reads.length).to.eq(1);
+    await counting.update('settings', 'theme', { font: 'serif' });
+    expect(reads.length).to.eq(3);
+    await counting.delete('settings', 'theme');
+    expect(reads.length).to.eq(4);
+
+    const history = await database.getHistory('settings', 'theme');
+    expect(history.map(entry => entry.current)).to.deep.equal([null, { color: 'red', font: 'serif' }, { color: 'red' }]);
+  });
+
+  it('should leave other collections alone', async () => {
+    await database.set('scores', 'ada', { score: 1 });
+
+    expect(await database.getHistory('scores', 'ada')).to.deep.equal([]);
+    const { documents } = await database.collection('scores_history').get();
+    expect(documents).to.deep.equal([]);
+  });
+
+  it('should record the writes of a committed transaction', async () => {
+    await database.set('settings', 'theme', { color: 'red' });
+
+    const transaction = database.beginTransaction();
+    await transaction.update('settings', 'theme', { color: 'green' });
+    await transaction.update('settings', 'theme', { font: 'serif' });
+    await transaction.set('settings', 'layout', { columns: 2 });
+    await transaction.commitTransaction();
+
+    const history = await database.getHistory('settings', 'theme');
+    expect(history.length).to.eq(2);
+    expect(history[0].previous).to.deep.equal({ color: 'red' });
+    expect(history[0].current).to.deep.equal({ color: 'green', font: 'serif' });
+
+    const layout = await database.getHistory('settings', 'layout');
+    expect(layout.map(entry => entry.operation)).to.deep.equal(['set']);
+  });
+
+  it('should restore a document as it was at a point in time', async () => {
+    await database.set('settings', 'theme', { color: 'red' });
+    const [{ timestamp }] = await database.getHistory('settings', 'theme');
+    await database.set('settings', 'theme', { color: 'blue', font: 'serif' });
+
+    await database.restore('settings', 'theme', timestamp);
+    expect(await database.get('settings', 'theme')).to.deep.include({ color: 'red' });
+    expect(await database.get('settings', 'theme')).to.not.have.property('font');
+
+    const history = await database.getHistory('settings', 'theme');
+    expect(history.length).to.eq(3);
+    expect(history[0].previous).to.deep.equal({ color: 'blue', font: 'serif' });
+  });
+
+  it('should delete a document restored to before it existed', async () => {
+    await database.set('settings', 'theme', { color: 'red' });
+    const [{ timestamp }] = await database.getHistory('settings', 'theme');
+
+    await database.restore('settings', 'theme', new Date(timestamp - 1));
+    try {
+      await database.get('settings', 'theme');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(NotFoundError);
+    }
+  });
+
+  it('should drop an expiry that has passed when restoring', async () => {
+    await database.set('settings', 'theme', { color: 'red' }, { expiresAt: Date.now() + 20 });
+    const [{ timestamp }] = await database.getHistory('settings', 'theme');
+    await database.set('settings', 'theme', { color: 'blue' });
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    await database.restore('settings', 'theme', timestamp);
+    const document = await database.get('settings', 'theme');
+    expect(document).to.deep.include({ color: 'red' });
+    expect(document).to.not.have.property('_expiresAt');
+  });
+
+  it('should reject a restore without history', async () => {
+    try {
+      await database.restore('settings', 'missing', Date.now());
+      throw new Error('expected restore to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(NotFoundError);
+      expect(err.documentName).to.eq('missing');
+    }
+  });
+
+  it('should keep at most maxEntries per document', async () => {
+    const limited = new DatabaseAdapter({
+      backend,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      history: { collections: ['settings'], retention: { maxEntries: 2 } },
+    });
+    await limited.set('settings', 'theme', { color: 'red' });
+    await limited.set('settings', 'theme', { color: 'green' });
+    await limited.set('settings', 'theme', { color: 'blue' });
+
+    const history = await limited.getHistory('settings', 'theme');
+    expect(history.map(entry => entry.current.color)).to.deep.equal(['blue', 'green']);
+  });
+
+  it('should prune entries older than maxAge from a whole collection', async () => {
+    await database.set('settings', 'theme', { color: 'red' });
+    await database.set('settings', 'layout', { columns: 2 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await database.set('settings', 'layout', { columns: 3 });
+
+    const pruning = new DatabaseAdapter({
+      backend,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      history: { collections: ['settings'], retention: { maxAge: 20 } },
+    });
+    const report = await pruning.pruneHistory('settings');
+    expect(report.succeeded).to.eq(2);
+
+    expect(await database.getHistory('settings', 'theme')).to.deep.equal([]);
+    expect((await database.getHistory('settings', 'layout')).length).to.eq(1);
+  });
+
+  it('should find the state at a timestamp', () => {
+    const entries = [
+      { collection: 'c', documentName: 'd', operation: 'update' as 'update', previous: { n: 1 }, current: { n: 2 }, timestamp: 20 },
+      { collection: 'c', documentName: 'd', operation: 'set' as 'set', previous: null, current: { n: 1 }, timestamp: 10 },
+    ];
+    expect(stateAt(entries, 25)).to.deep.equal({ n: 2 });
+    expect(stateAt(entries, 15)).to.deep.equal({ n: 1 });
+    expect(stateAt(entries, 5)).to.eq(null);
+    expect(stateAt([], 5)).to.eq(undefined);
+  });
+
+  it('should choose entries to prune', () => {
+    const entries = [
+      { _id: 'a1', documentName: 'a', timestamp: 100 },
+      { _id: 'a2', documentName: 'a', timestamp: 200 },
+      { _id: 'a3', documentName: 'a', timestamp: 300 },
+      { _id: 'b1', documentName: 'b', timestamp: 50 },
+    ];
+    expect(pruneEntries(entries, { maxEntries: 2 }, 400).sort()).to.deep.equal(['a1']);
+    expect(pruneEntries(entries, { maxAge: 250 }, 400).sort()).to.deep.equal(['a1', 'b1']);
+  });
+});
@@ -0,0 +1,111 @@
+import * as crypto from 'crypto';
+
+import { parseDuration } from '../expiry/expiry';
+
+export interface HistoryRetention {
+  // Most entries kept per document; older ones are pruned
+  maxEntries?: number;
+
+  // How long entries are kept: milliseconds, or a string such as '30d'
+  maxAge?: number | string;
+}
+
+export interface HistoryOptions {
+  // Collections whose writes are recorded
+  collections: string[];
+
+  // Appended to a collection's name to name its history collection. Defaults
+  // to '_history'.
+  suffix?: string;
+
+  // Recorded with every write that doesn't pass its own `actor`, e.g. the
+  // deploy or service name
+  actor?: string;
+
+  // Checked after each recorded write, for the document written, and by
+  // `pruneHistory` for a whole collection. Entries are kept forever when
+  // unset.
+  retention?: HistoryRetention;
+}
+
+export type HistoryOperation = 'set' | 'update' | 'arrayPush' | 'arrayRemove' | 'delete';
+
+// One recorded write. `previous` and `current` are the whole document before
+// and after it, or null when the document didn't exist.
+export interface HistoryEntry {
+  collection: string;
+  documentName: string;
+  operation: HistoryOperation;
+  previous: any | null;
+  current: any | null;
+  timestamp: number;
+  actor?: string;
+}
+
+// The fields of an entry `pruneEntries` needs
+export interface StoredHistoryEntry {
+  _id: string;
+  documentName: string;
+  timestamp: number;
+}
+
+let lastTimestamp = 0;
+
+// Milliseconds since the epoch, made strictly increasing within the process so
+// writes in the same millisecond still have an order to restore by
+export function historyTimestamp(): number {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return lastTimestamp;
+}
+
+// Unique even when several processes record a write in the same millisecond
+export function historyEntryName(documentName: string, timestamp: number): string {
+  return `${documentName}:${timestamp}:${crypto.randomBytes(4).toString('hex')}`;
+}
+
+// A document body as it should be recorded: without the fields the store
+// manages itself
+export function historyBody(document: any): any | null {
+  if (!document) {
+    return null;
+  }
+  const { _id, _version, ...body } = document;
+  return body;
+}
+
+// The state `entries` (newest first, for one document) say the document was
+// in at `timestamp`: the result of the last write at or before then, or what
+// came before the first write. Undefined when there's no history at all.
+export function stateAt(entries: HistoryEntry[], timestamp: number): any | null | undefined {
+  if (entries.length === 0) {
+    return undefined;
+  }
+  const entry = entries.filter(candidate => candidate.timestamp <= timestamp)[0];
+  return entry ? entry.current : entries[entries.length - 1].previous;
+}
+
+// The ids of the entries `retention` no longer keeps
+export function pruneEntries(
+  entries: StoredHistoryEntry[],
+  retention: HistoryRetention,
+  now: number = Date.now(),
+): string[] {
+  const cutoff = retention.maxAge !== undefined ? now - parseDuration(retention.maxAge) : -Infinity;
+  const byDocument: { [documentName: string]: StoredHistoryEntry[] } = {};
+  entries.forEach((entry) => {
+    byDocument[entry.documentName] = (byDocument[entry.documentName] || []).concat([entry]);
+  });
+
+  const pruned: string[] = [];
+  Object.keys(byDocument).forEach((documentName) => {
+    byDocument[documentName]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .forEach((entry, index) => {
+        const isExtra = retention.maxEntries !== undefined && index >= retention.maxEntries;
+        if (isExtra || entry.timestamp < cutoff) {
+          pruned.push(entry._id);
+        }
+      });
+  });
+  return pruned;
+}
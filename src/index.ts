@@ -1,3 +1,182 @@
 // Entry point
 import { DatabaseAdapter } from './adapter/DatabaseAdapter';
 export default DatabaseAdapter;
+
+export { Config } from './Config';
+export { SignedUploadRequest } from './adapter/DatabaseAdapter';
+export {
+  AbortSignalLike,
+  ExpiryOptions,
+  RequestOptions,
+  WriteConditions,
+  WriteOptions,
+} from './adapter/RequestOptions';
+export {
+  AggregateOptions,
+  AggregateValues,
+  Aggregation,
+  Aggregations,
+  GroupResult,
+} from './aggregate/aggregate';
+export {
+  BulkOperation,
+  BulkWriteOptions,
+  BulkWriteReport,
+  BulkWriteResult,
+  WherePredicate,
+} from './bulk/bulkWrite';
+export {
+  ExportOptions,
+  ExportProgress,
+  ExportReport,
+  ExportedDocument,
+} from './backup/exportCollections';
+export { ImportFailure, ImportMode, ImportOptions, ImportReport } from './backup/importCollections';
+export { BatchingOptions, ReadBatcher } from './batch/ReadBatcher';
+export { ReadCache, ReadCacheOptions, ReadCacheStats } from './cache/ReadCache';
+export { BackendFeatures, DatabaseBackend, DatabaseRequest } from './backend/DatabaseBackend';
+export { HttpBackend } from './backend/HttpBackend';
+export { MemoryBackend, MemoryBackendOptions } from './backend/MemoryBackend';
+export { statusCodeError } from './backend/statusCodeError';
+export { FetchLike, FetchTransport } from './transport/FetchTransport';
+export { HttpHeaders, HttpRequest, HttpResponse, HttpTransport } from './transport/HttpTransport';
+export { FormData, FormFile } from './transport/multipart';
+export { NodeHttpTransport } from './transport/NodeHttpTransport';
+export {
+  AbortError,
+  DatabaseError,
+  DatabaseErrorContext,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  SchemaValidationError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  ConflictError,
+  EncryptionError,
+  UploadTooLargeError,
+  TranscodeError,
+  TransactionError,
+  MigrationLockError,
+  QueuedWriteError,
+  UnsupportedFeatureError,
+  ServerError,
+} from './errors/DatabaseError';
+export {
+  DatabasePool,
+  DatabasePoolOptions,
+  PoolMiddlewareOptions,
+  PoolRequestHandler,
+  ProjectCredentials,
+  SharedConfig,
+} from './pool/DatabasePool';
+export {
+  EncryptedValue,
+  EncryptedWrite,
+  EncryptionOptions,
+  FieldEncryption,
+  isEncryptedValue,
+} from './encryption/FieldEncryption';
+export { parseDuration } from './expiry/expiry';
+export {
+  HistoryEntry,
+  HistoryOperation,
+  HistoryOptions,
+  HistoryRetention,
+} from './history/history';
+export { RetryPolicy, defaultRetryPolicy } from './retry/RetryPolicy';
+export { ConflictRetryOptions, conflictOf, runWithRetry } from './concurrency/runWithRetry';
+export {
+  Transaction,
+  TransactionOperation,
+  TransactionOperationType,
+  TransactionResult,
+  TransactionState,
+} from './transaction/Transaction';
+export {
+  OrderDirection,
+  Query,
+  QueryOrder,
+  QueryPage,
+  QueryPredicate,
+  QuerySpec,
+  WhereOperator,
+} from './query/Query';
+export {
+  ArrayFields,
+  ArrayItem,
+  ArrayUpdate,
+  Collection,
+  CollectionOptions,
+  DocumentUpdate,
+} from './collection/Collection';
+export {
+  FieldRule,
+  FieldType,
+  JsonSchemaValidator,
+  Schema,
+  SchemaFields,
+  SchemaOptions,
+  ZodLike,
+  defineSchema,
+  jsonSchema,
+  zodSchema,
+} from './schema/Schema';
+export {
+  DocumentTransform,
+  Migration,
+  MigrationContext,
+  MigrationReport,
+  MigrationResult,
+  MigrationRunner,
+  MigrationRunnerOptions,
+  MigrationStatus,
+  TransformReport,
+} from './migrations/MigrationRunner';
+export {
+  AudioFormat,
+  ImageFit,
+  ImageFormat,
+  TranscodeJob,
+  TranscodeJobState,
+  TranscodeOptions,
+  TranscodeStatus,
+  TranscodeType,
+  TranscodeWaitOptions,
+} from './transcode/TranscodeJob';
+export { detectContentType } from './upload/contentType';
+export { UploadOptions, UploadProgress, UploadSource } from './upload/UploadSource';
+export { ValueMarker, isValueMarker, valueTypes } from './values/valueTypes';
+export {
+  DeadLetter,
+  Outbox,
+  OutboxEntry,
+  OutboxFlushReport,
+  OutboxOptions,
+  isTransientError,
+} from './outbox/Outbox';
+export { PollingTransport } from './subscriptions/PollingTransport';
+export { SnapshotListener, Subscription, SubscriptionOptions } from './subscriptions/Subscription';
+export {
+  ChangeEvent,
+  ChangeFeed,
+  ChangeFeedHandlers,
+  ChangeType,
+  SubscriptionTarget,
+  SubscriptionTransport,
+} from './subscriptions/SubscriptionTransport';
+export { DebugLoggerOptions, debugLogger } from './middleware/debugLogger';
+export {
+  MetricsCollector,
+  MetricsSnapshot,
+  OperationMetrics,
+  defaultLatencyBuckets,
+} from './middleware/MetricsCollector';
+export {
+  Middleware,
+  OperationContext,
+  OperationFailure,
+  OperationSuccess,
+  redactHeaders,
+} from './middleware/Middleware';
@@ -0,0 +1,116 @@
+import { Middleware, OperationContext } from './Middleware';
+
+export const defaultLatencyBuckets = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface OperationMetrics {
+  success: number;
+  failure: number;
+  retries: number;
+
+  // Failures by status code ('network' when there was no response)
+  failuresByStatus: { [status: string]: number };
+
+  // Cumulative latency histogram: `latency.buckets[i]` counts operations that
+  // took at most `latency.bounds[i]` milliseconds
+  latency: {
+    bounds: number[];
+    buckets: number[];
+    count: number;
+    sum: number;
+  };
+}
+
+export interface MetricsSnapshot {
+  [operation: string]: OperationMetrics;
+}
+
+// Middleware that counts operations and records their latency, for exporting
+// to a metrics system through `snapshot()` or `toPrometheus()`
+export class MetricsCollector implements Middleware {
+  private readonly bounds: number[];
+  private metrics: MetricsSnapshot = {};
+
+  constructor(latencyBuckets: number[] = defaultLatencyBuckets) {
+    this.bounds = latencyBuckets.slice().sort((a, b) => a - b);
+  }
+
+  public after(context: OperationContext, { duration }: { duration: number }) {
+    const metrics = this.record(context, duration);
+    metrics.success += 1;
+  }
+
+  public error(context: OperationContext, { duration, statusCode }: { duration: number, statusCode?: number }) {
+    const metrics = this.record(context, duration);
+    metrics.failure += 1;
+
+    const status = statusCode ? String(statusCode) : 'network';
+    metrics.failuresByStatus[status] = (metrics.failuresByStatus[status] || 0) + 1;
+  }
+
+  public snapshot(): MetricsSnapshot {
+    return JSON.parse(JSON.stringify(this.metrics));
+  }
+
+  public reset() {
+    this.metrics = {};
+  }
+
+  // Render the metrics in the Prometheus text exposition format
+  public toPrometheus(prefix: string = 'koji_database'): string {
+    const lines: string[] = [
+      `# TYPE ${prefix}_operations_total counter`,
+      `# TYPE ${prefix}_failures_total counter`,
+      `# TYPE ${prefix}_retries_total counter`,
+      `# TYPE ${prefix}_operation_duration_ms histogram`,
+    ];
+
+    Object.keys(this.metrics).sort().forEach((operation) => {
+      const { success, failure, retries, failuresByStatus, latency } = this.metrics[operation];
+      const label = `operation="${operation}"`;
+
+      lines.push(`${prefix}_operations_total{${label},outcome="success"} ${success}`);
+      lines.push(`${prefix}_operations_total{${label},outcome="failure"} ${failure}`);
+      Object.keys(failuresByStatus).sort().forEach((status) => {
+        lines.push(`${prefix}_failures_total{${label},status="${status}"} ${failuresByStatus[status]}`);
+      });
+      lines.push(`${prefix}_retries_total{${label}} ${retries}`);
+
+      latency.bounds.forEach((bound, index) => {
+        lines.push(`${prefix}_operation_duration_ms_bucket{${label},le="${bound}"} ${latency.buckets[index]}`);
+      });
+      lines.push(`${prefix}_operation_duration_ms_bucket{${label},le="+Inf"} ${latency.count}`);
+      lines.push(`${prefix}_operation_duration_ms_sum{${label}} ${latency.sum}`);
+      lines.push(`${prefix}_operation_duration_ms_count{${label}} ${latency.count}`);
+    });
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private record(context: OperationContext, duration: number): OperationMetrics {
+    if (!this.metrics[context.operation]) {
+      this.metrics[context.operation] = {
+        success: 0,
+        failure: 0,
+        retries: 0,
+        failuresByStatus: {},
+        latency: {
+          bounds: this.bounds,
+          buckets: this.bounds.map(() => 0),
+          count: 0,
+          sum: 0,
+        },
+      };
+    }
+
+    const metrics = this.metrics[context.operation];
+    metrics.retries += context.retries;
+    metrics.latency.count += 1;
+    metrics.latency.sum += duration;
+    this.bounds.forEach((bound, index) => {
+      if (duration <= bound) {
+        metrics.latency.buckets[index] += 1;
+      }
+    });
+    return metrics;
+  }
+}
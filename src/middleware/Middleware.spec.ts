@@ -0,0 +1,100 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { DatabaseBackend } from '../backend/DatabaseBackend';
+import { statusCodeError } from '../backend/statusCodeError';
+import { debugLogger } from './debugLogger';
+import { MetricsCollector } from './MetricsCollector';
+import { OperationContext } from './Middleware';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Middleware', () => {
+  const config = {
+    projectId: 'test-project',
+    projectToken: 'secret-token',
+  };
+
+  it('should run hooks around each operation', async () => {
+    const calls: string[] = [];
+    const database = new DatabaseAdapter({ ...config, backend: new MemoryBackend() });
+    database.use({
+      before: (context: OperationContext) => calls.push(`before ${context.operation} ${context.collection}`),
+      after: (context: OperationContext) => calls.push(`after ${context.operation}`),
+      error: (context: OperationContext, { error }) => calls.push(`error ${context.operation} ${error.name}`),
+    });
+
+    await database.set('scores', 'player1', { score: 1 });
+    await database.getWhere('scores', 'score', '==', 1 as any);
+    await database.get('scores', 'missing').catch(() => undefined);
+    await database.runTransaction(async (transaction) => {
+      await transaction.delete('scores', 'player1');
+    });
+
+    expect(calls).to.deep.equal([
+      'before set scores',
+      'after set',
+      'before getWhere scores',
+      'after getWhere',
+      'before get scores',
+      'error get NotFoundError',
+      'before commitTransaction undefined',
+      'after commitTransaction',
+    ]);
+  });
+
+  it('should log operations without the project token', async () => {
+    const lines: string[] = [];
+    const database = new DatabaseAdapter({
+      ...config,
+      backend: new MemoryBackend(),
+      middleware: [debugLogger({ log: line => lines.push(line), verbose: true })],
+    });
+
+    await database.set('scores', 'player1', { score: 1 });
+
+    expect(lines.length).to.eq(2);
+    expect(lines[0]).to.contain('[redacted]');
+    expect(lines.join('\n')).to.not.contain('secret-token');
+    expect(lines[1]).to.match(/^\[koji-database\] set scores\/player1 ok \d+ms$/);
+  });
+
+  it('should count operations, failures, retries and latency', async () => {
+    let calls = 0;
+    const flaky: DatabaseBackend = {
+      request: async () => {
+        calls += 1;
+        if (calls === 1) {
+          throw statusCodeError(503, { message: 'unavailable' });
+        }
+        if (calls === 3) {
+          throw statusCodeError(404, { message: 'missing' });
+        }
+        return { document: {} };
+      },
+    };
+
+    const metrics = new MetricsCollector([10, 1000]);
+    const database = new DatabaseAdapter({
+      ...config,
+      backend: flaky,
+      retry: { initialDelay: 1, jitter: false },
+      middleware: [metrics],
+    });
+
+    await database.get('scores', 'player1');
+    await database.get('scores', 'player2').catch(() => undefined);
+
+    const { get } = metrics.snapshot();
+    expect(get.success).to.eq(1);
+    expect(get.failure).to.eq(1);
+    expect(get.retries).to.eq(1);
+    expect(get.failuresByStatus).to.deep.equal({ 404: 1 });
+    expect(get.latency.count).to.eq(2);
+    expect(get.latency.buckets[1]).to.eq(2);
+
+    const exposition = metrics.toPrometheus();
+    expect(exposition).to.contain('koji_database_operations_total{operation="get",outcome="success"} 1');
+    expect(exposition).to.contain('# TYPE koji_database_failures_total counter');
+    expect(exposition).to.contain('koji_database_failures_total{operation="get",status="404"} 1');
+  });
+});
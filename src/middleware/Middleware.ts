@@ -0,0 +1,78 @@
+import { DatabaseError } from '../errors/DatabaseError';
+import { HttpHeaders } from '../transport/HttpTransport';
+
+// Describes one operation as it passes through the adapter. The same object is
+// handed to every hook for the operation, so middleware can stash its own
+// state on it between `before` and `after`/`error`.
+export interface OperationContext {
+  // The adapter method, e.g. 'get', 'getWhere', 'set', 'commitTransaction'
+  operation: string;
+  endpoint: string;
+  collection?: string;
+  documentName?: string | null;
+  body?: any;
+
+  // As sent, including the project token; redact before logging
+  headers: HttpHeaders;
+
+  startedAt: number;
+
+  // How many times the operation has been retried so far
+  retries: number;
+
+  [key: string]: any;
+}
+
+export interface OperationSuccess {
+  duration: number;
+  response: any;
+}
+
+export interface OperationFailure {
+  duration: number;
+  error: DatabaseError;
+  statusCode?: number;
+}
+
+// Hooks around every request the adapter sends. Middleware runs in the order
+// it was added, and its hooks must not throw.
+export interface Middleware {
+  before?(context: OperationContext): void;
+  after?(context: OperationContext, outcome: OperationSuccess): void;
+  error?(context: OperationContext, outcome: OperationFailure): void;
+}
+
+const operationNames: { [path: string]: string } = {
+  '/v1/store/get': 'get',
+  '/v1/store/getCollections': 'getCollections',
+  '/v1/store/search': 'search',
+  '/v1/store/getAll': 'getAll',
+  '/v1/store/getAllWhere': 'getAllWhere',
+  '/v1/store/set': 'set',
+  '/v1/store/update': 'update',
+  '/v1/store/update/push': 'arrayPush',
+  '/v1/store/update/remove': 'arrayRemove',
+  '/v1/store/delete': 'delete',
+  '/v1/store/transaction': 'commitTransaction',
+  '/v1/objectStore/upload': 'uploadFile',
+  '/v1/objectStore/generateSignedRequest': 'generateSignedUploadRequest',
+  '/v1/objectStore/transcode': 'transcodeAsset',
+  '/v1/objectStore/transcode/status': 'getTranscodeStatus',
+};
+
+// Name the adapter method that sends `body` to `endpoint`
+export function operationName(endpoint: string, body: any): string {
+  if (endpoint === '/v1/store/get' && body && body.predicate) {
+    return 'getWhere';
+  }
+  return operationNames[endpoint] || endpoint;
+}
+
+// A copy of `headers` that is safe to log
+export function redactHeaders(headers: HttpHeaders): HttpHeaders {
+  const redacted: HttpHeaders = {};
+  Object.keys(headers).forEach((name) => {
+    redacted[name] = name.toLowerCase() === 'x-koji-project-token' ? '[redacted]' : headers[name];
+  });
+  return redacted;
+}
@@ -0,0 +1,43 @@
+import { Middleware, OperationContext, redactHeaders } from './Middleware';
+
+export interface DebugLoggerOptions {
+  // Where lines are written. Defaults to `console.log`.
+  log?: (message: string) => void;
+
+  // Also log request headers (with the project token redacted) and bodies
+  verbose?: boolean;
+}
+
+// Middleware that logs one line per operation, e.g.
+//   [koji-database] get scores/player1 ok 12ms
+//   [koji-database] set scores/player1 failed 503 840ms (2 retries): Service error (503)
+export function debugLogger(options: DebugLoggerOptions = {}): Middleware {
+  const log = options.log || ((message: string) => console.log(message));
+
+  const describe = (context: OperationContext) => {
+    const target = [context.collection, context.documentName].filter(part => !!part).join('/');
+    return `[koji-database] ${context.operation}${target ? ` ${target}` : ''}`;
+  };
+
+  const retries = (context: OperationContext) => (
+    context.retries > 0 ? ` (${context.retries} ${context.retries === 1 ? 'retry' : 'retries'})` : ''
+  );
+
+  return {
+    before(context) {
+      if (options.verbose) {
+        log(`${describe(context)} request ${JSON.stringify({
+          endpoint: context.endpoint,
+          headers: redactHeaders(context.headers),
+          body: context.body,
+        })}`);
+      }
+    },
+    after(context, { duration }) {
+      log(`${describe(context)} ok ${duration}ms${retries(context)}`);
+    },
+    error(context, { duration, error, statusCode }) {
+      log(`${describe(context)} failed${statusCode ? ` ${statusCode}` : ''} ${duration}ms${retries(context)}: ${error.message}`);
+    },
+  };
+}
@@ -0,0 +1,204 @@
+import * as url from 'url';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { MigrationLockError, UnsupportedFeatureError } from '../errors/DatabaseError';
+import { Migration, MigrationRunner } from './MigrationRunner';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Migrations', () => {
+  let database: DatabaseAdapter;
+  let calls: string[];
+  let migrations: Migration[];
+
+  beforeEach(async () => {
+    database = new DatabaseAdapter({
+      backend: new MemoryBackend(),
+      projectId: 'test-project',
+      projectToken: 'test-token',
+    });
+    await database.setMany('scores', {
+      a: { points: 1 },
+      b: { points: 2 },
+      c: { points: 3, retired: true },
+    });
+
+    calls = [];
+    migrations = [
+      {
+        id: '001-rename-points',
+        up: async ({ transform }) => {
+          calls.push('001');
+          await transform('scores', ({ points, ...rest }) => ({ ...rest, score: points }), 2);
+        },
+      },
+      {
+        id: '002-drop-retired',
+        up: async ({ transform }) => {
+          calls.push('002');
+          await transform('scores', document => (document.retired ? null : undefined));
+        },
+      },
+    ];
+  });
+
+  it('should apply pending migrations in order, once', async () => {
+    const runner = new MigrationRunner(database, migrations);
+    const report = await runner.run();
+    expect(report.applied.map(({ id }) => id)).to.deep.equal(['001-rename-points', '002-drop-retired']);
+    expect(report.applied[0].transforms[0]).to.include({ documents: 3, updated: 3, deleted: 0 });
+    expect(report.applied[1].transforms[0]).to.include({ documents: 3, updated: 0, deleted: 1 });
+
+    const documents: any[] = await database.getAll('scores', ['a', 'b', 'c']);
+    expect(documents.map(({ _version, ...document }) => document)).to.deep.equal([
+      { _id: 'a', score: 1 },
+      { _id: 'b', score: 2 },
+    ]);
+
+    const second = await runner.run();
+    expect(second.applied).to.deep.equal([]);
+    expect(calls).to.deep.equal(['001', '002']);
+  });
+
+  it('should report status', async () => {
+    await new MigrationRunner(database, migrations.slice(0, 1)).run();
+
+    const status = await new MigrationRunner(database, migrations).status();
+    expect(status.map(({ id, applied }) => ({ id, applied }))).to.deep.equal([
+      { id: '001-rename-points', applied: true },
+      { id: '002-drop-retired', applied: false },
+    ]);
+    expect(status[0].appliedAt).to.be.a('number');
+  });
+
+  it('should change nothing on a dry run', async () => {
+    const report = await new MigrationRunner(database, migrations).run({ dryRun: true });
+    expect(report.dryRun).to.be.true;
+    expect(report.applied[0].transforms[0].updated).to.eq(3);
+
+    const document: any = await database.get('scores', 'a');
+    expect(document.points).to.eq(1);
+
+    const status = await new MigrationRunner(database, migrations).status();
+    expect(status.every(({ applied }) => !applied)).to.be.true;
+  });
+
+  it('should not record a migration that fails', async () => {
+    const failing = migrations.concat([{ id: '003-broken', up: async () => { throw new Error('broken'); } }]);
+    try {
+      await new MigrationRunner(database, failing).run();
+      throw new Error('expected run to throw');
+    } catch (err) {
+      expect(err.message).to.eq('broken');
+    }
+
+    const status = await new MigrationRunner(database, failing).status();
+    expect(status.map(({ applied }) => applied)).to.deep.equal([true, true, false]);
+  });
+
+  it('should refuse to run while another runner holds the lock', async () => {
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>(resolve => release = resolve);
+    const first = new MigrationRunner(database, [{ id: 'slow', up: () => blocked }], { owner: 'first' });
+    const running = first.run();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    try {
+      await new MigrationRunner(database, migrations, { owner: 'second' }).run();
+      throw new Error('expected run to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(MigrationLockError);
+      expect(err.owner).to.eq('first');
+    }
+
+    release();
+    await running;
+    const report = await new MigrationRunner(database, migrations, { owner: 'second' }).run();
+    expect(report.applied.length).to.eq(2);
+  });
+
+  it('should let only one of two racing runners take over an expired lock', async () => {
+    const backend = new MemoryBackend();
+    await new DatabaseAdapter({ backend, projectId: 'test-project', projectToken: 'test-token' })
+      .set('_migrations', '__lock', { owner: 'crashed', expiresAt: Date.now() - 1000 });
+
+    // Commits that take different times, so one runner writes the lock in
+    // between the other reading it and writing it
+    const withCommitDelay = (delay: number) => new DatabaseAdapter({
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      backend: {
+        features: backend.features,
+        request: async (options) => {
+          if (url.parse(options.uri).pathname === '/v1/store/transaction') {
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+          return backend.request(options);
+        },
+      },
+    });
+
+    let runs = 0;
+    const migration = { id: 'once', up: async () => { runs += 1; } };
+    const results = await Promise.all([10, 40].map(delay => new MigrationRunner(withCommitDelay(delay), [migration])
+      .run()
+      .then(() => 'applied', err => (err instanceof MigrationLockError ? 'locked' : err))));
+
+    expect(results).to.deep.equal(['applied', 'locked']);
+    expect(runs).to.eq(1);
+  });
+
+  it('should renew the lock during a run', async () => {
+    const expiries: number[] = [];
+    const runner = new MigrationRunner(
+      database,
+      [
+        { id: 'slow', up: () => new Promise<void>(resolve => setTimeout(resolve, 50)) },
+        {
+          id: 'check',
+          up: async ({ database }) => {
+            const lock: any = await database.get('_migrations', '__lock', { cache: false });
+            expiries.push(lock.expiresAt - Date.now());
+          },
+        },
+      ],
+      { lockTtl: 30 },
+    );
+
+    await runner.run();
+    expect(expiries[0]).to.be.above(0);
+  });
+
+  it('should refuse to run without versioned, conditional lock writes', async () => {
+    const backend = new MemoryBackend();
+    const open = (features: any, withVersions: boolean) => new DatabaseAdapter({
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      backend: {
+        features,
+        request: async (options) => {
+          const response = await backend.request(options);
+          if (!withVersions && response && response.document) {
+            delete response.document._version;
+          }
+          return response;
+        },
+      },
+    });
+
+    for (const adapter of [open(undefined, true), open(backend.features, false)]) {
+      try {
+        await new MigrationRunner(adapter, migrations).run();
+        throw new Error('expected run to throw');
+      } catch (err) {
+        expect(err).to.be.instanceOf(UnsupportedFeatureError);
+        expect(err.feature).to.eq('preconditions');
+      }
+    }
+    expect(calls).to.deep.equal([]);
+  });
+
+  it('should reject duplicate ids', () => {
+    expect(() => new MigrationRunner(database, [migrations[0], migrations[0]])).to.throw('Duplicate migration id');
+  });
+});
@@ -0,0 +1,326 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { WriteConditions } from '../adapter/RequestOptions';
+import { conflictOf } from '../concurrency/runWithRetry';
+import { MigrationLockError, NotFoundError, UnsupportedFeatureError } from '../errors/DatabaseError';
+import { Transaction } from '../transaction/Transaction';
+
+// Called with each document (without `_id` or `_version`). Resolve with the
+// new body to replace it, null to delete it, or undefined to leave it alone.
+export type DocumentTransform = (document: any, documentName: string) => any;
+
+export interface TransformReport {
+  collection: string;
+  documents: number;
+  updated: number;
+  deleted: number;
+}
+
+export interface MigrationContext {
+  database: DatabaseAdapter;
+
+  // Writes made through `transform` are skipped on a dry run; `up` should
+  // check this before writing any other way
+  dryRun: boolean;
+
+  // Run `transform` over every document in `collection`, `pageSize` at a
+  // time, writing each page back in one transaction. A document changed by
+  // someone else in the meantime fails the page with a conflict.
+  transform(collection: string, transform: DocumentTransform, pageSize?: number): Promise<TransformReport>;
+}
+
+export interface Migration {
+  // Unique and stable: it's how applied migrations are recorded
+  id: string;
+  description?: string;
+  up(context: MigrationContext): Promise<void>;
+}
+
+export interface MigrationStatus {
+  id: string;
+  description?: string;
+  applied: boolean;
+  appliedAt?: number;
+}
+
+export interface MigrationResult {
+  id: string;
+  transforms: TransformReport[];
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+
+  // Migrations applied by this run (or that would be, on a dry run), in order
+  applied: MigrationResult[];
+}
+
+export interface MigrationRunnerOptions {
+  // Where applied migrations and the lock are recorded
+  collection?: string;
+
+  // Milliseconds after which a lock left by a crashed runner can be taken
+  // over. The lock is renewed before each migration and after each page a
+  // `transform` writes, so keep it longer than the slowest of those steps;
+  // 15 minutes by default.
+  lockTtl?: number;
+
+  // Identifies this runner in the lock document
+  owner?: string;
+}
+
+const lockDocumentName = '__lock';
+
+// Applies migrations in the order given, recording each one once it has run
+// so it's skipped next time. Only one runner can apply migrations at a time,
+// which takes a backend that supports preconditions; on any other backend,
+// `run` fails before applying anything.
+// A migration that fails stops the run without being recorded, so `up` should
+// be safe to run again.
+//
+//   const runner = new MigrationRunner(database, [
+//     {
+//       id: '001-rename-score',
+//       up: ({ transform }) => transform('scores', ({ points, ...rest }) => ({ ...rest, score: points })),
+//     },
+//   ]);
+//   await runner.run();
+export class MigrationRunner {
+  private readonly adapter: DatabaseAdapter;
+  private readonly migrations: Migration[];
+  private readonly collection: string;
+  private readonly lockTtl: number;
+  private readonly owner: string;
+
+  // The lock document's version as this runner last wrote it
+  private lockVersion?: number;
+
+  constructor(adapter: DatabaseAdapter, migrations: Migration[], options: MigrationRunnerOptions = {}) {
+    const ids = migrations.map(({ id }) => id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Duplicate migration id: ${duplicate}`);
+    }
+
+    this.adapter = adapter;
+    this.migrations = migrations;
+    this.collection = options.collection || '_migrations';
+    this.lockTtl = options.lockTtl || 15 * 60 * 1000;
+    this.owner = options.owner || `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  }
+
+  public async status(): Promise<MigrationStatus[]> {
+    const records = await this.appliedRecords();
+    return this.migrations.map(({ id, description }) => ({
+      id,
+      description,
+      applied: !!records[id],
+      appliedAt: records[id] ? records[id].appliedAt : undefined,
+    }));
+  }
+
+  // Apply every pending migration. On a dry run, nothing is locked or
+  // recorded and transforms only report what they would change.
+  public async run(options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+    const dryRun = !!options.dryRun;
+    if (!dryRun) {
+      await this.acquireLock();
+    }
+
+    try {
+      const records = await this.appliedRecords();
+      const report: MigrationReport = { dryRun, applied: [] };
+
+      for (const migration of this.migrations) {
+        if (records[migration.id]) {
+          continue;
+        }
+        if (!dryRun) {
+          await this.renewLock();
+        }
+
+        const transforms: TransformReport[] = [];
+        await migration.up({
+          dryRun,
+          database: this.adapter,
+          transform: async (collection, transform, pageSize) => {
+            const result = await this.transform(collection, transform, pageSize || 100, dryRun);
+            transforms.push(result);
+            return result;
+          },
+        });
+
+        if (!dryRun) {
+          await this.adapter.runTransaction(transaction => transaction.set(this.collection, migration.id, {
+            description: migration.description || null,
+            appliedAt: Date.now(),
+          }));
+        }
+        report.applied.push({ transforms, id: migration.id });
+      }
+
+      return report;
+    } finally {
+      if (!dryRun) {
+        await this.releaseLock();
+      }
+    }
+  }
+
+  private async appliedRecords(): Promise<{ [id: string]: { appliedAt: number } }> {
+    const ids = this.migrations.map(({ id }) => id);
+    const records: { [id: string]: any } = {};
+    if (ids.length === 0) {
+      return records;
+    }
+
+    const documents = await this.adapter.getAll<any>(this.collection, ids, { cache: false });
+    (documents || []).forEach((document) => {
+      records[document._id] = document;
+    });
+    return records;
+  }
+
+  private async transform(
+    collection: string,
+    transform: DocumentTransform,
+    pageSize: number,
+    dryRun: boolean,
+  ): Promise<TransformReport> {
+    const report: TransformReport = { collection, documents: 0, updated: 0, deleted: 0 };
+    const iterator = this.adapter.collection(collection).iterate({ cache: false });
+
+    let writes: ((transaction: Transaction) => Promise<void>)[] = [];
+    const flush = async () => {
+      const page = writes;
+      writes = [];
+      if (!dryRun && page.length > 0) {
+        await this.adapter.runTransaction(async (transaction) => {
+          for (const write of page) {
+            await write(transaction);
+          }
+        });
+        await this.renewLock();
+      }
+    };
+
+    let read = 0;
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        break;
+      }
+
+      const { _id, _version, ...document } = value;
+      const documentName = String(_id);
+      const conditions = { ifVersion: _version };
+      const result = await transform(document, documentName);
+      report.documents += 1;
+
+      if (result === null) {
+        writes.push(transaction => transaction.delete(collection, documentName, conditions));
+        report.deleted += 1;
+      } else if (result !== undefined) {
+        writes.push(transaction => transaction.set(collection, documentName, result, conditions));
+        report.updated += 1;
+      }
+
+      read += 1;
+      if (read % pageSize === 0) {
+        await flush();
+      }
+    }
+
+    await flush();
+    return report;
+  }
+
+  // The lock document exists while a runner holds the lock. It's only ever
+  // written conditionally: created with `ifNotExists` when the lock is free,
+  // and taken over, renewed or deleted with `ifVersion` on the version that
+  // was read. Of two runners racing for it, only one write can succeed.
+  private async acquireLock() {
+    const lock = await this.readLock();
+    if (lock && lock.owner !== this.owner && lock.expiresAt > Date.now()) {
+      throw this.lockError(lock);
+    }
+    if (lock && lock._version === undefined) {
+      throw this.unversionedLockError();
+    }
+    await this.writeLock(lock ? { ifVersion: lock._version } : { ifNotExists: true });
+  }
+
+  // Push the expiry back, failing if another runner took the lock over
+  // after it expired
+  private renewLock() {
+    return this.writeLock({ ifVersion: this.lockVersion });
+  }
+
+  private async writeLock(conditions: WriteConditions) {
+    try {
+      await this.adapter.runTransaction(transaction => transaction.set(
+        this.collection,
+        lockDocumentName,
+        { owner: this.owner, expiresAt: Date.now() + this.lockTtl },
+        conditions,
+      ));
+    } catch (err) {
+      if (conflictOf(err)) {
+        throw this.lockError(await this.readLock());
+      }
+      throw err;
+    }
+
+    const lock = await this.readLock();
+    if (!lock || lock.owner !== this.owner) {
+      throw this.lockError(lock);
+    }
+    if (lock._version === undefined) {
+      throw this.unversionedLockError();
+    }
+    this.lockVersion = lock._version;
+  }
+
+  private async releaseLock() {
+    try {
+      await this.adapter.runTransaction(transaction => transaction.delete(
+        this.collection,
+        lockDocumentName,
+        { ifVersion: this.lockVersion },
+      ));
+    } catch (err) {
+      // Taken over after it expired, so it's no longer ours to release
+      if (!conflictOf(err)) {
+        throw err;
+      }
+    }
+  }
+
+  private async readLock(): Promise<any> {
+    try {
+      return await this.adapter.get<any>(this.collection, lockDocumentName, { cache: false });
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  // Without a `_version`, renewing, taking over and releasing the lock can't be
+  // made conditional, so two runners could both believe they hold it
+  private unversionedLockError(): UnsupportedFeatureError {
+    return new UnsupportedFeatureError(
+      'preconditions',
+      'The migration lock has no _version; migrations need a backend that supports preconditions',
+      { collection: this.collection, documentName: lockDocumentName },
+    );
+  }
+
+  private lockError(lock: any): MigrationLockError {
+    return new MigrationLockError(
+      { collection: this.collection },
+      lock ? lock.owner : undefined,
+      lock ? lock.expiresAt : undefined,
+    );
+  }
+}
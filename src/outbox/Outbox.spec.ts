@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { DatabaseBackend, DatabaseRequest } from '../backend/DatabaseBackend';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { NetworkError, QueuedWriteError } from '../errors/DatabaseError';
+import { expect } from 'chai';
+import 'mocha';
+
+// Fails every request while `isDown`, or applies writes but loses the
+// response while `losesResponses`
+class FlakyBackend implements DatabaseBackend {
+  public isDown = false;
+  public losesResponses = false;
+  private readonly memory: MemoryBackend;
+
+  constructor(memory: MemoryBackend) {
+    this.memory = memory;
+  }
+
+  public async request(options: DatabaseRequest): Promise<any> {
+    if (this.isDown) {
+      throw networkError('ECONNREFUSED');
+    }
+    const response = await this.memory.request(options);
+    if (this.losesResponses) {
+      throw networkError('ECONNRESET');
+    }
+    return response;
+  }
+}
+
+function networkError(code: string): Error {
+  const error: any = new Error(code);
+  error.code = code;
+  return error;
+}
+
+describe('Write outbox', () => {
+  const filePath = path.join(os.tmpdir(), `koji-outbox-${process.pid}.log`);
+  const { valueTypes } = DatabaseAdapter;
+  let backend: FlakyBackend;
+  let database: DatabaseAdapter;
+
+  const open = () => new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+    outbox: { filePath, flushInterval: 0 },
+  });
+
+  beforeEach(() => {
+    backend = new FlakyBackend(new MemoryBackend());
+    database = open();
+  });
+
+  afterEach(() => {
+    database.close();
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  });
+
+  async function expectQueued(write: Promise<any>): Promise<QueuedWriteError> {
+    try {
+      await write;
+    } catch (err) {
+      expect(err).to.be.instanceOf(QueuedWriteError);
+      return err;
+    }
+    throw new Error('expected the write to be queued');
+  }
+
+  it('should keep writes that fail to reach the service and replay them in order', async () => {
+    backend.isDown = true;
+    const queued = await expectQueued(database.set('votes', 'poll', { count: 1 }));
+    const queuedBehind = await expectQueued(database.update('votes', 'poll', { count: valueTypes.increment(2) }));
+    expect(queued.cause).to.be.instanceOf(NetworkError);
+    expect(queuedBehind.cause).to.be.instanceOf(NetworkError);
+
+    const pending = database.pendingWrites();
+    expect(pending.map(({ operation }) => operation)).to.deep.equal(['set', 'update']);
+    expect(pending.map(({ id }) => id)).to.deep.equal([queued.entryId, queuedBehind.entryId]);
+    expect(pending[0].collection).to.eq('votes');
+    expect(pending[0].documentName).to.eq('poll');
+    expect(pending[0].id).to.not.eq(pending[1].id);
+
+    backend.isDown = false;
+    const report = await database.flushOutbox();
+    expect(report).to.deep.equal({ applied: 2, deadLettered: 0, pending: 0 });
+
+    const document: any = await database.get('votes', 'poll');
+    expect(document.count).to.eq(3);
+  });
+
+  it('should keep writes to collections with history', async () => {
+    database.close();
+    database = new DatabaseAdapter({
+      backend,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      outbox: { filePath, flushInterval: 0 },
+      history: { collections: ['votes'] },
+    });
+
+    backend.isDown = true;
+    await expectQueued(database.set('votes', 'poll', { count: 1 }));
+    expect(database.pendingWrites().map(({ operation }) => operation)).to.deep.equal(['set']);
+
+    backend.isDown = false;
+    await database.flushOutbox();
+    const document: any = await database.get('votes', 'poll');
+    expect(document.count).to.eq(1);
+  });
+
+  it('should stop replaying while the service is still unreachable', async () => {
+    backend.isDown = true;
+    await expectQueued(database.set('votes', 'poll', { count: 1 }));
+
+    const report = await database.flushOutbox();
+    expect(report).to.deep.equal({ applied: 0, deadLettered: 0, pending: 1 });
+    expect(database.pendingWrites()[0].attempts).to.eq(1);
+  });
+
+  it('should queue new writes behind pending ones', async () => {
+    backend.isDown = true;
+    await expectQueued(database.set('votes', 'poll', { count: 1 }));
+
+    backend.isDown = false;
+    expect(await database.update('votes', 'poll', { count: valueTypes.increment(1) })).to.be.true;
+    expect(database.pendingWrites()).to.deep.equal([]);
+
+    const document: any = await database.get('votes', 'poll');
+    expect(document.count).to.eq(2);
+  });
+
+  it('should not apply a write twice when its response was lost', async () => {
+    await database.set('votes', 'poll', { count: 0 });
+
+    backend.losesResponses = true;
+    await expectQueued(database.update('votes', 'poll', { count: valueTypes.increment(1) }));
+
+    backend.losesResponses = false;
+    await database.flushOutbox();
+
+    const document: any = await database.get('votes', 'poll');
+    expect(document.count).to.eq(1);
+  });
+
+  it('should only keep writes that could succeed later', async () => {
+    expect(await database.update('votes', 'missing', { count: 1 })).to.be.false;
+    expect(database.pendingWrites()).to.deep.equal([]);
+  });
+
+  it('should move writes rejected on replay to the dead letters', async () => {
+    backend.isDown = true;
+    await expectQueued(database.update('votes', 'missing', { count: 1 }));
+    await expectQueued(database.set('votes', 'poll', { count: 1 }));
+
+    backend.isDown = false;
+    const report = await database.flushOutbox();
+    expect(report).to.deep.equal({ applied: 1, deadLettered: 1, pending: 0 });
+
+    const [letter] = database.deadLetters();
+    expect(letter.documentName).to.eq('missing');
+    expect(letter.error.statusCode).to.eq(404);
+
+    database.clearDeadLetters();
+    expect(database.deadLetters()).to.deep.equal([]);
+  });
+
+  it('should keep pending writes across restarts', async () => {
+    backend.isDown = true;
+    await expectQueued(database.set('votes', 'poll', { count: 1 }));
+    await expectQueued(database.update('votes', 'missing', { count: 1 }));
+    backend.isDown = false;
+    await database.flushOutbox();
+    backend.isDown = true;
+    await expectQueued(database.set('votes', 'other', { count: 2 }));
+    database.close();
+
+    database = open();
+    expect(database.pendingWrites().map(({ documentName }) => documentName)).to.deep.equal(['other']);
+    expect(database.deadLetters().map(({ documentName }) => documentName)).to.deep.equal(['missing']);
+
+    backend.isDown = false;
+    await database.flushOutbox();
+    const document: any = await database.get('votes', 'other');
+    expect(document.count).to.eq(2);
+  });
+
+  it('should replay once another request succeeds', async () => {
+    backend.isDown = true;
+    await expectQueued(database.set('votes', 'poll', { count: 1 }));
+
+    backend.isDown = false;
+    await database.getCollections();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(database.pendingWrites()).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,195 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+import {
+  DatabaseError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+} from '../errors/DatabaseError';
+import { writeFileAtomic } from '../files/writeFileAtomic';
+
+export interface OutboxOptions {
+  // Where queued writes are kept. Created if missing; writes left over from
+  // an earlier run are replayed.
+  filePath: string;
+
+  // Milliseconds between automatic replays while writes are pending. Writes
+  // are also replayed as soon as any other request succeeds. Defaults to
+  // 30 seconds; 0 turns the timer off.
+  flushInterval?: number;
+}
+
+// A write that couldn't be delivered yet. `id` is also sent to the service as
+// the write's idempotency key, so a write that was applied but whose response
+// was lost isn't applied again when it's replayed.
+export interface OutboxEntry {
+  id: string;
+  uri: string;
+  operation: string;
+  collection: string;
+  documentName: string;
+  body: any;
+  queuedAt: number;
+
+  // Replays that failed with a transient error
+  attempts: number;
+}
+
+// A write the service rejected for good when it was replayed, e.g. an update
+// of a document that no longer exists
+export interface DeadLetter extends OutboxEntry {
+  error: {
+    name: string;
+    message: string;
+    statusCode?: number;
+  };
+  failedAt: number;
+}
+
+export interface OutboxFlushReport {
+  applied: number;
+  deadLettered: number;
+
+  // Writes still waiting, because the service couldn't be reached
+  pending: number;
+}
+
+type OutboxRecord =
+  | { type: 'queued', entry: OutboxEntry }
+  | { type: 'attempted', id: string }
+  | { type: 'applied', id: string }
+  | { type: 'dead', id: string, error: DeadLetter['error'], failedAt: number }
+  | { type: 'cleared' };
+
+// An append-only log of undelivered writes. Every change is appended as one
+// JSON line before it takes effect in memory, so the log survives a crash at
+// any point; `compact` rewrites it down to what's still relevant.
+export class Outbox {
+  private readonly filePath: string;
+  private entries: OutboxEntry[] = [];
+  private dead: DeadLetter[] = [];
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+
+    if (fs.existsSync(filePath)) {
+      fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .forEach(line => this.applyLine(line));
+      this.compact();
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  public pending(): OutboxEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  public deadLetters(): DeadLetter[] {
+    return this.dead.map(letter => ({ ...letter }));
+  }
+
+  public first(): OutboxEntry | undefined {
+    return this.entries[0];
+  }
+
+  public isPending(id: string): boolean {
+    return this.entries.some(entry => entry.id === id);
+  }
+
+  public append(entry: OutboxEntry) {
+    this.record({ entry, type: 'queued' });
+  }
+
+  public attempted(id: string) {
+    this.record({ id, type: 'attempted' });
+  }
+
+  public applied(id: string) {
+    this.record({ id, type: 'applied' });
+  }
+
+  public deadLetter(id: string, error: DatabaseError) {
+    this.record({
+      id,
+      type: 'dead',
+      error: { name: error.name, message: error.message, statusCode: error.statusCode },
+      failedAt: Date.now(),
+    });
+  }
+
+  public clearDeadLetters() {
+    this.record({ type: 'cleared' });
+  }
+
+  // Rewrite the log with only the pending writes and dead letters
+  public compact() {
+    const lines = this.entries
+      .map(entry => JSON.stringify({ entry, type: 'queued' }))
+      .concat(this.dead.map(({ error, failedAt, ...entry }) => [
+        JSON.stringify({ entry, type: 'queued' }),
+        JSON.stringify({ error, failedAt, id: entry.id, type: 'dead' }),
+      ].join('\n')));
+
+    writeFileAtomic(this.filePath, lines.map(line => `${line}\n`).join(''));
+  }
+
+  private record(record: OutboxRecord) {
+    fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+    this.apply(record);
+  }
+
+  private applyLine(line: string) {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      this.apply(JSON.parse(line));
+    } catch (err) {
+      // A partial last line, left by a crash mid-append
+    }
+  }
+
+  private apply(record: OutboxRecord) {
+    switch (record.type) {
+      case 'queued':
+        this.entries.push(record.entry);
+        break;
+      case 'attempted':
+        this.entries
+          .filter(entry => entry.id === record.id)
+          .forEach((entry) => { entry.attempts += 1; });
+        break;
+      case 'applied':
+        this.entries = this.entries.filter(entry => entry.id !== record.id);
+        break;
+      case 'dead': {
+        const { id, error, failedAt } = record;
+        this.entries
+          .filter(entry => entry.id === id)
+          .forEach(entry => this.dead.push({ ...entry, error, failedAt }));
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        break;
+      }
+      case 'cleared':
+        this.dead = [];
+        break;
+    }
+  }
+}
+
+export function idempotencyKey(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+// Whether a failed write might succeed if sent again later, as opposed to
+// being rejected by the service
+export function isTransientError(error: DatabaseError): boolean {
+  return error instanceof NetworkError
+    || error instanceof ServerError
+    || error instanceof RateLimitError;
+}
@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+
+import { DatabaseRequest } from '../backend/DatabaseBackend';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { QueuedWriteError } from '../errors/DatabaseError';
+import { Outbox } from '../outbox/Outbox';
+import { DatabasePool } from './DatabasePool';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Database pool', () => {
+  let backends: { [projectId: string]: MemoryBackend };
+  let pool: DatabasePool;
+
+  beforeEach(() => {
+    backends = {};
+    pool = new DatabasePool({
+      config: { cache: {} },
+      backendFor: (projectId) => {
+        backends[projectId] = new MemoryBackend();
+        return backends[projectId];
+      },
+    });
+  });
+
+  afterEach(() => pool.close());
+
+  it('should reuse one adapter per project', () => {
+    const first = pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+    const again = pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+    const other = pool.get({ projectId: 'remix-b', projectToken: 'token-b' });
+
+    expect(again).to.equal(first);
+    expect(other).to.not.equal(first);
+    expect(first.authHeaders['X-Koji-Project-Id']).to.eq('remix-a');
+    expect(other.authHeaders['X-Koji-Project-Token']).to.eq('token-b');
+    expect(pool.size).to.eq(2);
+  });
+
+  it('should keep each remix\'s reads and cache separate', async () => {
+    const remixA = pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+    const remixB = pool.get({ projectId: 'remix-b', projectToken: 'token-b' });
+
+    await remixA.set('settings', 'theme', { color: 'red' });
+    await remixB.set('settings', 'theme', { color: 'blue' });
+
+    const themeA: any = await remixA.get('settings', 'theme');
+    const themeB: any = await remixB.get('settings', 'theme');
+    expect(themeA.color).to.eq('red');
+    expect(themeB.color).to.eq('blue');
+    expect((remixA.cacheStats() as any).size).to.eq(1);
+    expect((remixB.cacheStats() as any).size).to.eq(1);
+  });
+
+  it('should replace an adapter when its token changes', async () => {
+    const old = pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+    await old.set('settings', 'theme', { color: 'red' });
+    await old.get('settings', 'theme');
+
+    const rotated = pool.get({ projectId: 'remix-a', projectToken: 'token-a2' });
+    expect(rotated).to.not.equal(old);
+    expect(rotated.authHeaders['X-Koji-Project-Token']).to.eq('token-a2');
+    expect((old.cacheStats() as any).size).to.eq(0);
+    expect(pool.size).to.eq(1);
+  });
+
+  it('should hand a replaced adapter\'s outbox over to its replacement', async () => {
+    const filePath = path.join(os.tmpdir(), `koji-pool-outbox-${process.pid}.log`);
+    const projectFile = `${filePath}.remix-a`;
+    const memory = new MemoryBackend();
+    const tokens: string[] = [];
+    let isDown = true;
+    let hangs = false;
+    let fail: (error: Error) => void = () => undefined;
+    let hung: () => void = () => undefined;
+
+    pool = new DatabasePool({
+      config: { outbox: { filePath, flushInterval: 0 } },
+      backendFor: () => ({
+        request: (options: DatabaseRequest) => {
+          tokens.push(options.headers['X-Koji-Project-Token']);
+          if (hangs) {
+            hangs = false;
+            hung();
+            return new Promise((resolve, reject) => { fail = reject; });
+          }
+          return isDown ? Promise.reject(networkError()) : memory.request(options);
+        },
+      }),
+    });
+
+    try {
+      const old = pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+      expect(await old.set('scores', 'a', { score: 1 }).catch(err => err)).to.be.instanceOf(QueuedWriteError);
+
+      // A replay is still waiting on the service when the token changes
+      hangs = true;
+      const sent = new Promise((resolve) => { hung = resolve; });
+      const flushing = old.flushOutbox();
+      await sent;
+      const rotated = pool.get({ projectId: 'remix-a', projectToken: 'token-a2' });
+      expect(old.pendingWrites()).to.deep.equal([]);
+      expect(rotated.pendingWrites().length).to.eq(1);
+
+      // Nothing the old adapter's replay learns afterwards overwrites the file
+      expect(await rotated.set('scores', 'b', { score: 2 }).catch(err => err)).to.be.instanceOf(QueuedWriteError);
+      fail(networkError());
+      await flushing;
+      expect(new Outbox(projectFile).size).to.eq(2);
+
+      isDown = false;
+      tokens.length = 0;
+      expect(await rotated.flushOutbox()).to.deep.equal({ applied: 2, deadLettered: 0, pending: 0 });
+      expect(tokens).to.deep.equal(['token-a2', 'token-a2']);
+    } finally {
+      if (fs.existsSync(projectFile)) {
+        fs.unlinkSync(projectFile);
+      }
+    }
+  });
+
+  it('should drop the least recently used adapter', () => {
+    pool = new DatabasePool({ maxAdapters: 2, backendFor: () => new MemoryBackend() });
+    const first = pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+    pool.get({ projectId: 'remix-b', projectToken: 'token-b' });
+    pool.get({ projectId: 'remix-a', projectToken: 'token-a' });
+    pool.get({ projectId: 'remix-c', projectToken: 'token-c' });
+
+    expect(pool.size).to.eq(2);
+    expect(pool.get({ projectId: 'remix-a', projectToken: 'token-a' })).to.equal(first);
+    expect(pool.evict('remix-b')).to.be.false;
+  });
+
+  it('should pick the agent for the URL requests go to', () => {
+    const nodeTest = process.env.NODE_TEST;
+    process.env.NODE_TEST = 'true';
+    try {
+      pool = new DatabasePool();
+      expect((pool as any).agent).to.not.be.instanceOf(https.Agent);
+      pool.close();
+
+      pool = new DatabasePool({ config: { baseUrl: 'https://database.example.com' } });
+      expect((pool as any).agent).to.be.instanceOf(https.Agent);
+    } finally {
+      if (nodeTest === undefined) {
+        delete process.env.NODE_TEST;
+      } else {
+        process.env.NODE_TEST = nodeTest;
+      }
+    }
+  });
+
+  it('should attach the request\'s adapter in middleware', () => {
+    const handler = pool.middleware();
+    const req: any = {};
+    const res: any = { locals: { KOJI_PROJECT_ID: 'remix-a', KOJI_PROJECT_TOKEN: 'token-a' } };
+
+    let error: any = 'not called';
+    handler(req, res, (err) => { error = err; });
+
+    expect(error).to.be.undefined;
+    expect(req.database).to.equal(res.locals.database);
+    expect(req.database).to.equal(pool.get({ projectId: 'remix-a', projectToken: 'token-a' }));
+  });
+
+  it('should pass an error on when a request has no credentials', () => {
+    const handler = pool.middleware({ property: 'db', credentials: () => undefined });
+    const req: any = {};
+    const res: any = { locals: {} };
+
+    let error: any;
+    handler(req, res, (err) => { error = err; });
+
+    expect(error).to.be.instanceOf(Error);
+    expect(req.db).to.be.undefined;
+  });
+});
+
+function networkError(): Error {
+  const error: any = new Error('ECONNREFUSED');
+  error.code = 'ECONNREFUSED';
+  return error;
+}
@@ -0,0 +1,194 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as url from 'url';
+
+import { Config } from '../Config';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { apiUrl } from '../adapter/apiUrl';
+import { DatabaseBackend } from '../backend/DatabaseBackend';
+import { NodeHttpTransport } from '../transport/NodeHttpTransport';
+
+export interface ProjectCredentials {
+  projectId: string;
+  projectToken: string;
+}
+
+// Everything in `Config` except the credentials, which differ per project
+export type SharedConfig = Pick<Config, Exclude<keyof Config, 'projectId' | 'projectToken'>>;
+
+export interface DatabasePoolOptions {
+  // Used for every adapter the pool creates. Unless `transport` or `backend`
+  // is set, adapters share one keep-alive connection pool.
+  config?: SharedConfig;
+
+  // Create the backend for a project, e.g. a separate `MemoryBackend` per
+  // remix in local development. Takes precedence over `config.backend`.
+  backendFor?: (projectId: string) => DatabaseBackend;
+
+  // Most adapters kept before the least recently used is closed and dropped.
+  // Defaults to 100.
+  maxAdapters?: number;
+}
+
+export interface PoolMiddlewareOptions {
+  // Where the adapter is attached on `req` and `res.locals`. Defaults to
+  // 'database'.
+  property?: string;
+
+  // Which project a request belongs to. Defaults to the
+  // `KOJI_PROJECT_ID`/`KOJI_PROJECT_TOKEN` that `VccMiddleware` puts on
+  // `res.locals`, then to the same variables in `process.env`.
+  credentials?: (req: any, res: any) => ProjectCredentials | undefined;
+}
+
+// The subset of Express/Connect the middleware relies on
+export type PoolRequestHandler = (req: any, res: { locals: any }, next: (err?: any) => void) => void;
+
+interface PoolEntry {
+  projectToken: string;
+  adapter: DatabaseAdapter;
+}
+
+// Hands out one adapter per project id, so every remix served by the same
+// process gets its own credentials, read cache and batcher while sharing
+// connections. Transactions already get a fresh queue per `beginTransaction`,
+// so nothing queued for one remix can be committed with another's.
+//
+//   const pool = new DatabasePool({ config: { cache: {} } });
+//   app.use(pool.middleware());
+//   app.get('/scores', async (req, res) => {
+//     res.json(await req.database.get('scores', 'player1'));
+//   });
+export class DatabasePool {
+  private readonly config: SharedConfig;
+  private readonly backendFor?: (projectId: string) => DatabaseBackend;
+  private readonly maxAdapters: number;
+  private readonly agent?: http.Agent;
+
+  private entries = new Map<string, PoolEntry>();
+
+  constructor(options: DatabasePoolOptions = {}) {
+    this.backendFor = options.backendFor;
+    this.maxAdapters = options.maxAdapters || 100;
+
+    const config = options.config || {};
+    if (config.transport || config.backend || this.backendFor) {
+      this.config = config;
+    } else {
+      this.agent = keepAliveAgent(apiUrl(config.baseUrl, '/'));
+      this.config = { ...config, transport: new NodeHttpTransport({ agent: this.agent }) };
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // The adapter for `credentials.projectId`, created on first use. A new
+  // token for a known project replaces its adapter, so nothing cached under
+  // the old credentials is served under the new ones. The old adapter is
+  // closed first, which releases its outbox file to the replacement.
+  public get(credentials: ProjectCredentials): DatabaseAdapter {
+    const { projectId, projectToken } = credentials;
+    if (!projectId || !projectToken) {
+      throw new Error('A projectId and projectToken are required to get a database adapter');
+    }
+
+    const entry = this.entries.get(projectId);
+    if (entry) {
+      this.entries.delete(projectId);
+      if (entry.projectToken === projectToken) {
+        this.entries.set(projectId, entry);
+        return entry.adapter;
+      }
+      entry.adapter.close();
+    }
+
+    const adapter = new DatabaseAdapter({
+      ...this.config,
+      projectId,
+      projectToken,
+      backend: this.backendFor ? this.backendFor(projectId) : this.config.backend,
+
+      // Each project keeps its own outbox, so its writes are only ever
+      // replayed with its own credentials
+      outbox: this.config.outbox && {
+        ...this.config.outbox,
+        filePath: `${this.config.outbox.filePath}.${projectId}`,
+      },
+    });
+    this.entries.set(projectId, { projectToken, adapter });
+    this.evictOverflow();
+    return adapter;
+  }
+
+  // Close and forget the adapter for `projectId`, e.g. when a remix is deleted
+  public evict(projectId: string): boolean {
+    const entry = this.entries.get(projectId);
+    if (!entry) {
+      return false;
+    }
+    entry.adapter.close();
+    this.entries.delete(projectId);
+    return true;
+  }
+
+  // Close every adapter and the shared connections
+  public close() {
+    this.entries.forEach(entry => entry.adapter.close());
+    this.entries.clear();
+    if (this.agent) {
+      this.agent.destroy();
+    }
+  }
+
+  // Express/Connect middleware that attaches the adapter for the request's
+  // project to `req` and `res.locals`. Requests without credentials are
+  // passed to `next` with an error.
+  public middleware(options: PoolMiddlewareOptions = {}): PoolRequestHandler {
+    const property = options.property || 'database';
+    const resolve = options.credentials || defaultCredentials;
+
+    return (req, res, next) => {
+      let adapter: DatabaseAdapter;
+      try {
+        const credentials = resolve(req, res);
+        if (!credentials) {
+          throw new Error('Couldn\'t find a KOJI_PROJECT_ID or KOJI_PROJECT_TOKEN for this request');
+        }
+        adapter = this.get(credentials);
+      } catch (err) {
+        next(err);
+        return;
+      }
+
+      req[property] = adapter;
+      res.locals[property] = adapter;
+      next();
+    };
+  }
+
+  private evictOverflow() {
+    while (this.entries.size > this.maxAdapters) {
+      const oldest = this.entries.keys().next().value;
+      this.evict(oldest);
+    }
+  }
+}
+
+function defaultCredentials(req: any, res: any): ProjectCredentials | undefined {
+  const locals = (res && res.locals) || {};
+  const source = locals.KOJI_PROJECT_ID ? locals : process.env;
+  if (!source.KOJI_PROJECT_ID || !source.KOJI_PROJECT_TOKEN) {
+    return undefined;
+  }
+  return { projectId: source.KOJI_PROJECT_ID, projectToken: source.KOJI_PROJECT_TOKEN };
+}
+
+// Adapters send every request to the URL `apiUrl` resolves, so its protocol
+// decides which agent they need
+function keepAliveAgent(target: string): http.Agent {
+  return url.parse(target).protocol === 'http:'
+    ? new http.Agent({ keepAlive: true })
+    : new https.Agent({ keepAlive: true });
+}
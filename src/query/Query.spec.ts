@@ -0,0 +1,125 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Queries', () => {
+  const testCollectionName = 'scores';
+
+  const backend = new MemoryBackend();
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  });
+
+  before(async () => {
+    backend.reset();
+    const transaction = database.beginTransaction();
+    for (let i = 0; i < 10; i += 1) {
+      await transaction.set(testCollectionName, `player${i}`, {
+        score: i * 10,
+        level: i % 5,
+        mode: i % 2 === 0 ? 'ranked' : 'casual',
+      });
+    }
+    await transaction.commit();
+  });
+
+  it('should combine predicates', async () => {
+    const { documents } = await database.collection(testCollectionName)
+      .where('level', '>=', 3)
+      .where('mode', '==', 'ranked')
+      .get();
+    expect(documents.map(doc => doc._id).sort()).to.deep.equal(['player4', 'player8']);
+  });
+
+  it('should sort and limit', async () => {
+    const { documents, nextCursor } = await database.collection(testCollectionName)
+      .orderBy('score', 'desc')
+      .limit(3)
+      .get();
+    expect(documents.map(doc => doc.score)).to.deep.equal([90, 80, 70]);
+    expect(nextCursor).to.be.a('string');
+  });
+
+  it('should page with cursors', async () => {
+    const query = database.collection(testCollectionName)
+      .orderBy('level')
+      .orderBy('score', 'desc')
+      .limit(4);
+
+    const names: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: any = await query.startAfter(cursor).get();
+      names.push(...page.documents.map((doc: any) => doc._id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(names).to.deep.equal([
+      'player5', 'player0', 'player6', 'player1', 'player7',
+      'player2', 'player8', 'player3', 'player9', 'player4',
+    ]);
+  });
+
+  it('should iterate through an entire collection', async () => {
+    const scores: number[] = [];
+    for await (const doc of database.collection(testCollectionName).orderBy('score')) {
+      scores.push(doc.score);
+    }
+    expect(scores).to.deep.equal([0, 10, 20, 30, 40, 50, 60, 70, 80, 90]);
+  });
+
+  it('should iterate a page at a time', async () => {
+    const operations: string[] = [];
+    const observed = new DatabaseAdapter({
+      backend,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      middleware: [{ before: ({ operation }) => operations.push(operation) }],
+    });
+
+    const scores: number[] = [];
+    for await (const doc of observed.collection(testCollectionName).orderBy('score', 'desc').iterate({ pageSize: 3 })) {
+      scores.push(doc.score);
+    }
+    expect(scores).to.deep.equal([90, 80, 70, 60, 50, 40, 30, 20, 10, 0]);
+    expect(operations).to.deep.equal(['get', 'get', 'get', 'get']);
+  });
+
+  it('should send only the first predicate to a backend without paging', async () => {
+    const bodies: any[] = [];
+    const observed = new DatabaseAdapter({
+      backend: { request: options => backend.request(options) },
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      middleware: [{ before: ({ operation, body }) => bodies.push({ operation, body }) }],
+    });
+
+    const { documents } = await observed.collection(testCollectionName)
+      .where('mode', '==', 'casual')
+      .where('score', '>', 50)
+      .get();
+    expect(documents.map(doc => doc._id).sort()).to.deep.equal(['player7', 'player9']);
+    expect(bodies).to.deep.equal([{
+      operation: 'getWhere',
+      body: { collection: testCollectionName, predicate: { key: 'mode', operation: '==', value: 'casual' } },
+    }]);
+
+    const scores: number[] = [];
+    for await (const doc of observed.collection(testCollectionName).iterate({ pageSize: 3 })) {
+      scores.push(doc.score);
+    }
+    expect(scores.length).to.eq(10);
+    expect(bodies.length).to.eq(2);
+  });
+
+  it('should not change the query it was built from', async () => {
+    const base = database.collection(testCollectionName).where('mode', '==', 'casual');
+    base.where('level', '==', 1);
+
+    const { documents } = await base.get();
+    expect(documents.length).to.eq(5);
+  });
+});
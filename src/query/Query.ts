@@ -0,0 +1,144 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { RequestOptions } from '../adapter/RequestOptions';
+
+export type WhereOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'array-contains' | 'in';
+
+export type OrderDirection = 'asc' | 'desc';
+
+export interface QueryPredicate {
+  key: string;
+  operation: WhereOperator;
+  value: any;
+}
+
+export interface QueryOrder {
+  key: string;
+  direction: OrderDirection;
+}
+
+// The serialized form of a query. See `runQuery` for how it's evaluated.
+export interface QuerySpec {
+  collection: string;
+  predicates: QueryPredicate[];
+  orderBy: QueryOrder[];
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface IterateOptions extends RequestOptions {
+  // Documents fetched per request from a backend that supports paging.
+  // Defaults to 100.
+  pageSize?: number;
+}
+
+export interface QueryPage<T> {
+  documents: T[];
+
+  // Pass to `startAfter` to fetch the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// An immutable, chainable description of a read from one collection. Every
+// builder method returns a new query, so partial queries can be shared and
+// extended safely.
+//
+//   const { documents, nextCursor } = await database.collection('scores')
+//     .where('level', '>=', 3)
+//     .orderBy('score', 'desc')
+//     .limit(20)
+//     .get();
+export class Query<T = any> {
+  protected readonly adapter: DatabaseAdapter;
+  protected readonly spec: QuerySpec;
+
+  // Applied to every document read through this query, e.g. to validate it
+  protected readonly readDocument?: (document: any) => T;
+
+  constructor(adapter: DatabaseAdapter, spec: QuerySpec, readDocument?: (document: any) => T) {
+    this.adapter = adapter;
+    this.spec = spec;
+    this.readDocument = readDocument;
+  }
+
+  // Documents must match every predicate
+  public where(key: string, operation: WhereOperator, value: any): Query<T> {
+    return this.extend({
+      predicates: this.spec.predicates.concat([{ key, operation, value }]),
+    });
+  }
+
+  // Sort by `key`. Later calls break ties left by earlier ones.
+  public orderBy(key: string, direction: OrderDirection = 'asc'): Query<T> {
+    return this.extend({
+      orderBy: this.spec.orderBy.concat([{ key, direction }]),
+    });
+  }
+
+  public limit(limit: number): Query<T> {
+    return this.extend({ limit });
+  }
+
+  public offset(offset: number): Query<T> {
+    return this.extend({ offset });
+  }
+
+  // Continue after the page that returned `cursor`
+  public startAfter(cursor: string | null): Query<T> {
+    return this.extend({ cursor: cursor || undefined });
+  }
+
+  public async get(requestOptions: RequestOptions = {}): Promise<QueryPage<T>> {
+    const page = await this.adapter.query<T>(this.spec, requestOptions);
+    if (!this.readDocument) {
+      return page;
+    }
+    return {
+      ...page,
+      documents: page.documents.map(this.readDocument),
+    };
+  }
+
+  // Stream every matching document, fetching `pageSize` at a time. A backend
+  // without paging, such as the hosted API, answers with every match at once,
+  // so there the whole first page is the whole result. The query's own
+  // `limit` is ignored.
+  public iterate(options: IterateOptions = {}): AsyncIterableIterator<T> {
+    const { pageSize, ...requestOptions } = options;
+    let query = this.extend({ limit: this.adapter.supports('paging') ? pageSize || 100 : undefined });
+    let buffer: T[] = [];
+    let isDone = false;
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: async (): Promise<IteratorResult<T>> => {
+        while (buffer.length === 0 && !isDone) {
+          const { documents, nextCursor } = await query.get(requestOptions);
+          buffer = documents;
+          if (nextCursor) {
+            query = query.startAfter(nextCursor);
+          } else {
+            isDone = true;
+          }
+        }
+
+        if (buffer.length === 0) {
+          return { done: true, value: undefined as any };
+        }
+        return { done: false, value: buffer.shift() as T };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+
+    return iterator;
+  }
+
+  public readonly [Symbol.asyncIterator] = (): AsyncIterableIterator<T> => this.iterate();
+
+  public toSpec(): QuerySpec {
+    return this.spec;
+  }
+
+  protected extend(changes: Partial<QuerySpec>): Query<T> {
+    return new Query<T>(this.adapter, { ...this.spec, ...changes }, this.readDocument);
+  }
+}
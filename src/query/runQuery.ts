@@ -0,0 +1,115 @@
+import { ValidationError } from '../errors/DatabaseError';
+import { QueryPage, QueryPredicate, QuerySpec } from './Query';
+
+// The service can only filter on one predicate, so a query is sent as a
+// `getWhere` on its first predicate (or a read of the whole collection) and
+// the rest of it is applied here: the other predicates, then the order, the
+// cursor, the offset and the limit.
+export function runQuery<T>(documents: T[], spec: QuerySpec): QueryPage<T> {
+  const order = spec.orderBy.concat([{ key: '_id', direction: 'asc' }]);
+  const sortValues = (document: any) => order.map(({ key }) => fieldValue(document, key));
+
+  // Documents are ordered by the requested keys and then by name, so every
+  // document has a stable position a cursor can point after
+  const compareDocuments = (a: any[], b: any[]) => order.reduce(
+    (result, { direction }, index) => result
+      || compareValues(a[index], b[index]) * (direction === 'desc' ? -1 : 1),
+    0,
+  );
+
+  let results = documents
+    .filter(document => spec.predicates.every(predicate => matchesPredicate(document, predicate)))
+    .sort((a, b) => compareDocuments(sortValues(a), sortValues(b)));
+
+  if (spec.cursor) {
+    const after = decodeCursor(spec.cursor);
+    results = results.filter(document => compareDocuments(sortValues(document), after) > 0);
+  }
+
+  results = results.slice(spec.offset || 0);
+
+  if (!spec.limit || results.length <= spec.limit) {
+    return { documents: results, nextCursor: null };
+  }
+
+  results = results.slice(0, spec.limit);
+  return {
+    documents: results,
+    nextCursor: encodeCursor(sortValues(results[results.length - 1])),
+  };
+}
+
+export function matchesPredicate(document: any, { key, operation, value }: QueryPredicate): boolean {
+  const actual = fieldValue(document, key);
+  switch (operation) {
+    case '==':
+      return isEqual(actual, value);
+    case '!=':
+      return !isEqual(actual, value);
+    case '<':
+      return actual < value;
+    case '<=':
+      return actual <= value;
+    case '>':
+      return actual > value;
+    case '>=':
+      return actual >= value;
+    case 'array-contains':
+      return Array.isArray(actual) && actual.some(item => isEqual(item, value));
+    case 'in':
+      return Array.isArray(value) && value.some(item => isEqual(actual, item));
+    default:
+      throw new ValidationError(`Unsupported predicate operation: ${operation}`);
+  }
+}
+
+// Orders missing values first, then numbers, then everything else as strings
+function compareValues(a: any, b: any): number {
+  const isMissingA = a === undefined || a === null;
+  const isMissingB = b === undefined || b === null;
+  if (a === b || (isMissingA && isMissingB)) {
+    return 0;
+  }
+  if (isMissingA) {
+    return -1;
+  }
+  if (isMissingB) {
+    return 1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a < b ? -1 : 1;
+  }
+  if (typeof a === 'number') {
+    return -1;
+  }
+  if (typeof b === 'number') {
+    return 1;
+  }
+
+  const stringA = typeof a === 'string' ? a : JSON.stringify(a);
+  const stringB = typeof b === 'string' ? b : JSON.stringify(b);
+  if (stringA === stringB) {
+    return 0;
+  }
+  return stringA < stringB ? -1 : 1;
+}
+
+function fieldValue(document: any, key: string): any {
+  return document !== null && typeof document === 'object' ? document[key] : undefined;
+}
+
+function encodeCursor(values: any[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64');
+}
+
+function decodeCursor(cursor: string): any[] {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'));
+  } catch (err) {
+    throw new ValidationError('Invalid cursor');
+  }
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
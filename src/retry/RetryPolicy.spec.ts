@@ -0,0 +1,134 @@
+import * as http from 'http';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { AbortError, ServerError, TimeoutError } from '../errors/DatabaseError';
+import { RetryPolicy, defaultRetryPolicy, retryDelay } from './RetryPolicy';
+import { expect } from 'chai';
+import 'mocha';
+
+// Serves the queued responses in order, one per request, then 200s. With
+// NODE_TEST set, the adapter sends everything to localhost:3129.
+function stubServer(responses: { status: number, headers?: any, delay?: number }[]) {
+  const stub = {
+    requests: [] as string[],
+    server: http.createServer((req, res) => {
+      stub.requests.push(req.url || '');
+      const { status, headers, delay } = responses.shift() || { status: 200, headers: {}, delay: 0 };
+      setTimeout(
+        () => {
+          res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+          res.end(JSON.stringify({ document: { ok: true } }));
+        },
+        delay || 0,
+      );
+    }),
+  };
+  return stub;
+}
+
+describe('Retries and timeouts', () => {
+  const config = {
+    projectId: 'test-project',
+    projectToken: 'test-token',
+    retry: { initialDelay: 1, jitter: false },
+  };
+
+  let stub: ReturnType<typeof stubServer>;
+
+  const listen = (responses: { status: number, headers?: any, delay?: number }[]) => {
+    stub = stubServer(responses);
+    return new Promise(resolve => stub.server.listen(3129, resolve));
+  };
+
+  afterEach(() => new Promise(resolve => stub.server.close(resolve)));
+
+  it('should retry idempotent reads on transient errors', async () => {
+    await listen([{ status: 502 }, { status: 503 }]);
+    const database = new DatabaseAdapter(config);
+
+    const document: any = await database.get('TEST_COLLECTION', 'TEST_DOCUMENT');
+    expect(document.ok).to.be.true;
+    expect(stub.requests.length).to.eq(3);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    await listen([{ status: 502 }, { status: 502 }, { status: 502 }]);
+    const database = new DatabaseAdapter({ ...config, retry: { ...config.retry, maxAttempts: 2 } });
+
+    try {
+      await database.get('TEST_COLLECTION', 'TEST_DOCUMENT');
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(ServerError);
+      expect(stub.requests.length).to.eq(2);
+    }
+  });
+
+  it('should not retry non-idempotent writes unless asked to', async () => {
+    await listen([{ status: 502 }, { status: 502 }]);
+    const database = new DatabaseAdapter(config);
+
+    expect(await database.update('TEST_COLLECTION', 'TEST_DOCUMENT', {})).to.be.false;
+    expect(stub.requests.length).to.eq(1);
+
+    expect(await database.update('TEST_COLLECTION', 'TEST_DOCUMENT', {}, { retry: true })).to.be.true;
+    expect(stub.requests.length).to.eq(3);
+  });
+
+  it('should not retry without a retry policy', async () => {
+    await listen([{ status: 502 }]);
+    const database = new DatabaseAdapter({ ...config, retry: undefined });
+
+    expect(await database.set('TEST_COLLECTION', 'TEST_DOCUMENT', {})).to.be.false;
+    expect(stub.requests.length).to.eq(1);
+  });
+
+  it('should time out slow requests', async () => {
+    await listen([{ status: 200, delay: 200 }]);
+    const database = new DatabaseAdapter({ ...config, retry: undefined });
+
+    try {
+      await database.get('TEST_COLLECTION', 'TEST_DOCUMENT', { timeout: 20 });
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TimeoutError);
+    }
+  });
+
+  it('should stop when aborted', async () => {
+    await listen([{ status: 502 }, { status: 502 }]);
+    const database = new DatabaseAdapter({
+      ...config,
+      retry: { ...config.retry, initialDelay: 1000 },
+    });
+
+    const listeners: (() => void)[] = [];
+    const signal = {
+      aborted: false,
+      addEventListener: (type: 'abort', listener: () => void) => listeners.push(listener),
+      removeEventListener: () => undefined,
+    };
+    setTimeout(
+      () => {
+        signal.aborted = true;
+        listeners.forEach(listener => listener());
+      },
+      50,
+    );
+
+    try {
+      await database.get('TEST_COLLECTION', 'TEST_DOCUMENT', { signal });
+      throw new Error('expected get to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(AbortError);
+      expect(stub.requests.length).to.eq(1);
+    }
+  });
+
+  it('should respect Retry-After', () => {
+    const policy: RetryPolicy = { ...defaultRetryPolicy, jitter: false };
+    const err = { statusCode: 503, response: { headers: { 'retry-after': '2' } } };
+    expect(retryDelay(1, err, policy)).to.eq(2000);
+    expect(retryDelay(1, err, { ...policy, maxDelay: 1000 })).to.be.null;
+    expect(retryDelay(3, { statusCode: 503 }, policy)).to.eq(400);
+  });
+});
@@ -0,0 +1,177 @@
+import { AbortSignalLike } from '../adapter/RequestOptions';
+import {
+  AbortError,
+  RateLimitError,
+  TimeoutError,
+  parseRetryAfter,
+} from '../errors/DatabaseError';
+
+export interface RetryPolicy {
+  // Total number of attempts, including the first
+  maxAttempts: number;
+
+  // Delay before the first retry, in milliseconds. Each later retry waits
+  // `backoffFactor` times longer, up to `maxDelay`.
+  initialDelay: number;
+  maxDelay: number;
+  backoffFactor: number;
+
+  // Randomize each delay between zero and its computed value ("full jitter"),
+  // so many clients failing at once don't retry in lockstep
+  jitter: boolean;
+
+  retryableStatusCodes: number[];
+  retryableErrorCodes: string[];
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 5000,
+  backoffFactor: 2,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableErrorCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ETIMEDOUT',
+    'ESOCKETTIMEDOUT',
+  ],
+};
+
+// Run `operation` until it succeeds, fails with a non-retryable error, or the
+// policy runs out of attempts. `onRetry` is called before each retry.
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignalLike,
+  onRetry?: (attempt: number, err: any) => void,
+): Promise<T> {
+  let attempt = 1;
+  while (true) {
+    try {
+      return await operation();
+    } catch (err) {
+      if (attempt >= policy.maxAttempts || !isRetryable(err, policy)) {
+        throw err;
+      }
+
+      const delay = retryDelay(attempt, err, policy);
+      if (delay === null) {
+        throw err;
+      }
+
+      await sleep(delay, signal);
+      attempt += 1;
+      if (onRetry) {
+        onRetry(attempt, err);
+      }
+    }
+  }
+}
+
+export function isRetryable(err: any, policy: RetryPolicy): boolean {
+  if (err instanceof AbortError) {
+    return false;
+  }
+
+  const statusCode = err && err.statusCode;
+  if (statusCode) {
+    return policy.retryableStatusCodes.indexOf(statusCode) !== -1;
+  }
+
+  const code = err instanceof TimeoutError
+    ? 'ETIMEDOUT'
+    : err && (err.code || (err.cause && err.cause.code));
+  return policy.retryableErrorCodes.indexOf(code) !== -1;
+}
+
+// Milliseconds to wait before the next attempt, or null if the service asked us
+// to back off for longer than the policy allows
+export function retryDelay(attempt: number, err: any, policy: RetryPolicy): number | null {
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1),
+  );
+  const delay = policy.jitter ? Math.random() * backoff : backoff;
+
+  const retryAfter = err instanceof RateLimitError
+    ? err.retryAfter
+    : parseRetryAfter(err && err.response && err.response.headers);
+  if (retryAfter === undefined) {
+    return delay;
+  }
+  if (retryAfter > policy.maxDelay) {
+    return null;
+  }
+  return Math.max(delay, retryAfter);
+}
+
+// Resolve after `delay` milliseconds, or reject early with an AbortError
+export function sleep(delay: number, signal?: AbortSignalLike): Promise<void> {
+  return withDeadline(
+    new Promise<void>(resolve => setTimeout(resolve, delay)),
+    undefined,
+    signal,
+  );
+}
+
+// Race `promise` against an optional timeout and abort signal. Rejects with a
+// TimeoutError or AbortError respectively; `context` annotates those errors.
+export function withDeadline<T>(
+  promise: Promise<T>,
+  timeout?: number,
+  signal?: AbortSignalLike,
+  context: { endpoint?: string } = {},
+): Promise<T> {
+  if (!timeout && !signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: any;
+
+    const onAbort = () => {
+      cleanup();
+      reject(new AbortError(context));
+    };
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    };
+
+    if (signal) {
+      if (signal.aborted) {
+        reject(new AbortError(context));
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+    }
+
+    if (timeout) {
+      timer = setTimeout(
+        () => {
+          cleanup();
+          reject(new TimeoutError(context));
+        },
+        timeout,
+      );
+    }
+
+    promise.then(
+      (result) => {
+        cleanup();
+        resolve(result);
+      },
+      (err) => {
+        cleanup();
+        reject(err);
+      },
+    );
+  });
+}
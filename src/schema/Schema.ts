@@ -0,0 +1,161 @@
+import { expiresAtKey } from '../expiry/expiry';
+
+// A schema checks document bodies before they are written (and optionally
+// after they are read). `validate` returns a list of human-readable problems;
+// an empty list means the value is valid. `partial` is set for update bodies,
+// where fields may be missing.
+export interface Schema<T> {
+  validate(value: any, partial: boolean): string[];
+}
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+export interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+
+  // Rule for each element when `type` is 'array'
+  items?: FieldType | FieldRule;
+
+  // Extra check, returning a problem description or undefined
+  check?: (value: any) => string | undefined;
+}
+
+export type SchemaFields<T> = { [K in keyof T]-?: FieldType | FieldRule };
+
+// Fields the store adds to documents itself. They're never part of a schema,
+// so `Collection` leaves them out before checking a document it has read.
+export const storeFields = ['_id', '_version', expiresAtKey];
+
+export interface SchemaOptions {
+  // Allow keys that aren't listed in the schema. Off by default, so typos in
+  // field names are caught.
+  allowUnknown?: boolean;
+}
+
+// The built-in validator: a flat map of field names to types
+//
+//   const scoreSchema = defineSchema<Score>({
+//     name: 'string',
+//     score: { type: 'number', check: v => (v < 0 ? 'must not be negative' : undefined) },
+//     tags: { type: 'array', items: 'string', optional: true },
+//   });
+export function defineSchema<T>(fields: SchemaFields<T>, options: SchemaOptions = {}): Schema<T> {
+  const rules: { [key: string]: FieldRule } = {};
+  Object.keys(fields).forEach((key) => {
+    rules[key] = toRule((fields as any)[key]);
+  });
+
+  return {
+    validate(value: any, partial: boolean): string[] {
+      if (!isPlainObject(value)) {
+        return ['document must be an object'];
+      }
+
+      const problems: string[] = [];
+
+      Object.keys(rules).forEach((key) => {
+        const rule = rules[key];
+        if (value[key] === undefined || value[key] === null) {
+          if (!partial && !rule.optional) {
+            problems.push(`${key} is required`);
+          }
+          return;
+        }
+        problems.push(...checkField(key, value[key], rule));
+      });
+
+      if (!options.allowUnknown) {
+        Object.keys(value)
+          .filter(key => !rules[key] && storeFields.indexOf(key) === -1)
+          .forEach(key => problems.push(`${key} is not in the schema`));
+      }
+
+      return problems;
+    },
+  };
+}
+
+// Adapt a zod schema (or anything with the same `safeParse`/`partial` shape)
+export function zodSchema<T>(schema: ZodLike): Schema<T> {
+  return {
+    validate(value: any, partial: boolean): string[] {
+      const target = partial && schema.partial ? schema.partial() : schema;
+      const result = target.safeParse(value);
+      if (result.success) {
+        return [];
+      }
+      return result.error.issues.map(({ path, message }) => (
+        path.length > 0 ? `${path.join('.')}: ${message}` : message
+      ));
+    },
+  };
+}
+
+// Adapt a compiled JSON Schema validator, such as one returned by
+// `ajv.compile`. JSON Schema has no notion of a partial document, so pass a
+// second validator for update bodies, or leave it out to skip checking them.
+export function jsonSchema<T>(validate: JsonSchemaValidator, validatePartial?: JsonSchemaValidator): Schema<T> {
+  return {
+    validate(value: any, partial: boolean): string[] {
+      const validator = partial ? validatePartial : validate;
+      if (!validator || validator(value)) {
+        return [];
+      }
+      return (validator.errors || []).map(({ instancePath, dataPath, message }) => (
+        `${instancePath || dataPath || '/'} ${message || 'is invalid'}`
+      ));
+    },
+  };
+}
+
+export interface ZodLike {
+  safeParse(value: any): {
+    success: boolean;
+    error: { issues: { path: (string | number)[], message: string }[] };
+  };
+  partial?(): ZodLike;
+}
+
+export interface JsonSchemaValidator {
+  (value: any): boolean;
+  errors?: { instancePath?: string, dataPath?: string, message?: string }[] | null;
+}
+
+function toRule(rule: FieldType | FieldRule): FieldRule {
+  return typeof rule === 'string' ? { type: rule } : rule;
+}
+
+function checkField(key: string, value: any, rule: FieldRule): string[] {
+  if (!hasType(value, rule.type)) {
+    return [`${key} must be of type ${rule.type}`];
+  }
+
+  if (rule.type === 'array' && rule.items) {
+    const itemRule = toRule(rule.items);
+    const problems = (value as any[]).map((item, index) => checkField(`${key}[${index}]`, item, itemRule));
+    if (problems.some(list => list.length > 0)) {
+      return ([] as string[]).concat(...problems);
+    }
+  }
+
+  const problem = rule.check ? rule.check(value) : undefined;
+  return problem ? [`${key} ${problem}`] : [];
+}
+
+function hasType(value: any, type: FieldType): boolean {
+  switch (type) {
+    case 'any':
+      return true;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { NotFoundError } from '../errors/DatabaseError';
+import {
+  ChangeFeed,
+  ChangeFeedHandlers,
+  SubscriptionTarget,
+  SubscriptionTransport,
+} from './SubscriptionTransport';
+
+// Fallback transport for when no push channel is available: re-reads the
+// target every `interval` milliseconds and reports it as a full snapshot, which
+// the subscription diffs into change events
+export class PollingTransport implements SubscriptionTransport {
+  private readonly adapter: DatabaseAdapter;
+  private readonly interval: number;
+
+  constructor(adapter: DatabaseAdapter, interval: number) {
+    this.adapter = adapter;
+    this.interval = interval;
+  }
+
+  public open(
+    target: SubscriptionTarget,
+    resumeToken: string | undefined,
+    handlers: ChangeFeedHandlers,
+  ): ChangeFeed {
+    let timer: any;
+    let isClosed = false;
+    let isPolling = false;
+    let shouldPollAgain = false;
+
+    const poll = async () => {
+      if (isPolling) {
+        shouldPollAgain = true;
+        return;
+      }
+
+      clearTimeout(timer);
+      isPolling = true;
+
+      let documents: any[];
+      try {
+        documents = await this.fetch(target);
+      } catch (err) {
+        isPolling = false;
+        if (!isClosed) {
+          isClosed = true;
+          handlers.onError(err);
+        }
+        return;
+      }
+
+      isPolling = false;
+      if (isClosed) {
+        return;
+      }
+
+      handlers.onSnapshot(documents);
+
+      if (shouldPollAgain) {
+        shouldPollAgain = false;
+        poll();
+      } else {
+        timer = setTimeout(poll, this.interval);
+      }
+    };
+
+    poll();
+
+    return {
+      close: () => {
+        isClosed = true;
+        clearTimeout(timer);
+      },
+      refresh: () => {
+        if (!isClosed) {
+          poll();
+        }
+      },
+    };
+  }
+
+  private async fetch({ collection, documentName }: SubscriptionTarget): Promise<any[]> {
+    if (documentName) {
+      try {
+        return [await this.adapter.get(collection, documentName, { cache: false })];
+      } catch (err) {
+        if (err instanceof NotFoundError) {
+          return [];
+        }
+        throw err;
+      }
+    }
+
+    const documents: any[] = [];
+    for await (const document of this.adapter.collection(collection).iterate({ cache: false })) {
+      documents.push(document);
+    }
+    return documents;
+  }
+}
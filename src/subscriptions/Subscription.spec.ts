@@ -0,0 +1,187 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { ChangeEvent, ChangeFeedHandlers, SubscriptionTransport } from './SubscriptionTransport';
+import { expect } from 'chai';
+import 'mocha';
+
+// Resolve with the next batch of events delivered to the returned listener
+function recorder() {
+  const batches: ChangeEvent[][] = [];
+  const waiting: ((events: ChangeEvent[]) => void)[] = [];
+  return {
+    listener: (events: ChangeEvent[]) => {
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve(events);
+      } else {
+        batches.push(events);
+      }
+    },
+    next: () => new Promise<ChangeEvent[]>((resolve) => {
+      const events = batches.shift();
+      if (events) {
+        resolve(events);
+      } else {
+        waiting.push(resolve);
+      }
+    }),
+  };
+}
+
+const summarize = (events: ChangeEvent[]) => events.map(({ type, documentName }) => `${type}:${documentName}`);
+
+describe('Subscriptions', () => {
+  const backend = new MemoryBackend();
+  const config = {
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  };
+
+  // Polls rarely, so changes only show up through local write notifications
+  const database = new DatabaseAdapter({ ...config, pollInterval: 60000 });
+
+  beforeEach(async () => {
+    backend.reset();
+    await database.set('scores', 'first', { score: 1 });
+  });
+
+  it('should report local writes to a collection', async () => {
+    const { listener, next } = recorder();
+    const unsubscribe = database.onSnapshot('scores', listener);
+    try {
+      expect(summarize(await next())).to.deep.equal(['added:first']);
+
+      await database.set('scores', 'second', { score: 2 });
+      expect(summarize(await next())).to.deep.equal(['added:second']);
+
+      await database.update('scores', 'first', { score: DatabaseAdapter.valueTypes.increment(1) });
+      const [modified] = await next();
+      expect(modified.type).to.eq('modified');
+      expect(modified.document.score).to.eq(2);
+
+      await database.runTransaction(async (transaction) => {
+        await transaction.delete('scores', 'second');
+      });
+      expect(summarize(await next())).to.deep.equal(['removed:second']);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should only report changes to a watched document', async () => {
+    const { listener, next } = recorder();
+    const unsubscribe = database.onSnapshot('scores', 'first', listener);
+    try {
+      expect(summarize(await next())).to.deep.equal(['added:first']);
+
+      await database.set('scores', 'second', { score: 2 });
+      await database.delete('scores', 'first');
+      expect(summarize(await next())).to.deep.equal(['removed:first']);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should poll for changes made elsewhere', async () => {
+    const polling = new DatabaseAdapter({ ...config, pollInterval: 10 });
+    const { listener, next } = recorder();
+    const unsubscribe = polling.onSnapshot('scores', listener);
+    try {
+      expect(summarize(await next())).to.deep.equal(['added:first']);
+
+      await database.set('scores', 'second', { score: 2 });
+      expect(summarize(await next())).to.deep.equal(['added:second']);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should poll past the read cache', async () => {
+    const cached = new DatabaseAdapter({ ...config, cache: {}, pollInterval: 10 });
+    await cached.get('scores', 'first');
+
+    const { listener, next } = recorder();
+    const unsubscribe = cached.onSnapshot('scores', 'first', listener);
+    try {
+      expect(summarize(await next())).to.deep.equal(['added:first']);
+
+      await database.update('scores', 'first', { score: 5 });
+      const [modified] = await next();
+      expect(modified.type).to.eq('modified');
+      expect(modified.document.score).to.eq(5);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should keep polling after a listener throws', async () => {
+    const polling = new DatabaseAdapter({ ...config, pollInterval: 10 });
+    const errors: any[] = [];
+    const { listener, next } = recorder();
+    let calls = 0;
+    const unsubscribe = polling.onSnapshot(
+      'scores',
+      (events) => {
+        calls += 1;
+        listener(events);
+        if (calls === 1) {
+          throw new Error('boom');
+        }
+      },
+      { onError: err => errors.push(err) },
+    );
+    try {
+      expect(summarize(await next())).to.deep.equal(['added:first']);
+      expect(errors.map(err => err.message)).to.deep.equal(['boom']);
+
+      await database.set('scores', 'second', { score: 2 });
+      expect(summarize(await next())).to.deep.equal(['added:second']);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should reconnect and resume after a feed fails', async () => {
+    const opened: (string | undefined)[] = [];
+    let handlers: ChangeFeedHandlers | undefined;
+    const transport: SubscriptionTransport = {
+      open: (target, resumeToken, feedHandlers) => {
+        opened.push(resumeToken);
+        handlers = feedHandlers;
+        return { close: () => undefined };
+      },
+    };
+
+    const errors: any[] = [];
+    const pushed = new DatabaseAdapter({ ...config, subscriptionTransport: transport });
+    const { listener, next } = recorder();
+    const unsubscribe = pushed.onSnapshot('scores', listener, { onError: err => errors.push(err) });
+    try {
+      const document = { _id: 'first', score: 1 };
+      (handlers as ChangeFeedHandlers).onChanges(
+        [{ document, type: 'added', collection: 'scores', documentName: 'first' }],
+        'token-1',
+      );
+      expect(summarize(await next())).to.deep.equal(['added:first']);
+
+      (handlers as ChangeFeedHandlers).onError(new Error('connection lost'));
+      expect(errors.length).to.eq(1);
+
+      await new Promise(resolve => setTimeout(resolve, 600));
+      expect(opened).to.deep.equal([undefined, 'token-1']);
+
+      // A replay of something already delivered is dropped
+      (handlers as ChangeFeedHandlers).onChanges(
+        [
+          { document, type: 'added', collection: 'scores', documentName: 'first' },
+          { document: { _id: 'second' }, type: 'added', collection: 'scores', documentName: 'second' },
+        ],
+        'token-2',
+      );
+      expect(summarize(await next())).to.deep.equal(['added:second']);
+    } finally {
+      unsubscribe();
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  ChangeEvent,
+  ChangeFeed,
+  SubscriptionTarget,
+  SubscriptionTransport,
+} from './SubscriptionTransport';
+
+export type SnapshotListener = (events: ChangeEvent[]) => void;
+
+export interface SubscriptionOptions {
+  // Called whenever the feed fails or the listener throws. The subscription
+  // keeps reconnecting until it is unsubscribed.
+  onError?: (err: any) => void;
+}
+
+const initialReconnectDelay = 500;
+const maxReconnectDelay = 30000;
+
+// Keeps a change feed open for one listener. Tracks the documents it has
+// already delivered, so snapshots from a polling transport and replays after a
+// reconnect turn into precise added/modified/removed events without
+// duplicates.
+export class Subscription {
+  public readonly target: SubscriptionTarget;
+
+  private readonly transport: SubscriptionTransport;
+  private readonly listener: SnapshotListener;
+  private readonly options: SubscriptionOptions;
+
+  private known: { [documentName: string]: string } = {};
+  private feed?: ChangeFeed;
+  private resumeToken?: string;
+  private reconnectAttempts = 0;
+  private reconnectTimer: any;
+  private isClosed = false;
+
+  constructor(
+    transport: SubscriptionTransport,
+    target: SubscriptionTarget,
+    listener: SnapshotListener,
+    options: SubscriptionOptions = {},
+  ) {
+    this.transport = transport;
+    this.target = target;
+    this.listener = listener;
+    this.options = options;
+  }
+
+  public start() {
+    this.open();
+  }
+
+  public close() {
+    this.isClosed = true;
+    clearTimeout(this.reconnectTimer);
+    if (this.feed) {
+      this.feed.close();
+      this.feed = undefined;
+    }
+  }
+
+  public refresh() {
+    if (this.feed && this.feed.refresh) {
+      this.feed.refresh();
+    }
+  }
+
+  // Whether a write to `documentName` in `collection` can affect this target
+  public matches(collection: string, documentName?: string): boolean {
+    return this.target.collection === collection
+      && (!this.target.documentName || !documentName || this.target.documentName === documentName);
+  }
+
+  private open() {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.feed = this.transport.open(this.target, this.resumeToken, {
+      onSnapshot: documents => this.handleSnapshot(documents),
+      onChanges: (events, resumeToken) => this.handleChanges(events, resumeToken),
+      onError: err => this.handleError(err),
+    });
+  }
+
+  private handleSnapshot(documents: any[]) {
+    if (this.isClosed) {
+      return;
+    }
+    this.reconnectAttempts = 0;
+
+    const current: { [documentName: string]: any } = {};
+    documents
+      .filter(document => !this.target.documentName || document._id === this.target.documentName)
+      .forEach((document) => {
+        current[document._id] = document;
+      });
+
+    const events: ChangeEvent[] = [];
+    Object.keys(current).forEach((documentName) => {
+      const event = this.track(documentName, current[documentName]);
+      if (event) {
+        events.push(event);
+      }
+    });
+    Object.keys(this.known)
+      .filter(documentName => !current.hasOwnProperty(documentName))
+      .forEach((documentName) => {
+        const event = this.track(documentName, null);
+        if (event) {
+          events.push(event);
+        }
+      });
+
+    this.emit(events);
+  }
+
+  private handleChanges(events: ChangeEvent[], resumeToken?: string) {
+    if (this.isClosed) {
+      return;
+    }
+    this.reconnectAttempts = 0;
+
+    if (resumeToken) {
+      this.resumeToken = resumeToken;
+    }
+
+    const normalized: ChangeEvent[] = [];
+    events.forEach(({ type, documentName, document }) => {
+      const event = this.track(documentName, type === 'removed' ? null : document);
+      if (event) {
+        normalized.push(event);
+      }
+    });
+
+    this.emit(normalized);
+  }
+
+  private handleError(err: any) {
+    this.feed = undefined;
+    if (this.isClosed) {
+      return;
+    }
+
+    if (this.options.onError) {
+      this.options.onError(err);
+    }
+
+    const delay = Math.min(maxReconnectDelay, initialReconnectDelay * Math.pow(2, this.reconnectAttempts));
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  // Record the latest state of a document and describe how it changed, if it
+  // did. `document` is null when the document no longer exists.
+  private track(documentName: string, document: any | null): ChangeEvent | null {
+    const isKnown = this.known.hasOwnProperty(documentName);
+
+    if (document === null) {
+      if (!isKnown) {
+        return null;
+      }
+      delete this.known[documentName];
+      return { documentName, document, type: 'removed', collection: this.target.collection };
+    }
+
+    const serialized = JSON.stringify(document);
+    if (isKnown && this.known[documentName] === serialized) {
+      return null;
+    }
+
+    this.known[documentName] = serialized;
+    return {
+      documentName,
+      document,
+      type: isKnown ? 'modified' : 'added',
+      collection: this.target.collection,
+    };
+  }
+
+  // The feed carries on after a listener throws: the events count as
+  // delivered, and the error goes to `onError` rather than up into the
+  // transport, where nothing would catch it
+  private emit(events: ChangeEvent[]) {
+    if (events.length === 0) {
+      return;
+    }
+    try {
+      this.listener(events);
+    } catch (err) {
+      if (this.options.onError) {
+        this.options.onError(err);
+      }
+    }
+  }
+}
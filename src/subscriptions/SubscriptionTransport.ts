@@ -0,0 +1,46 @@
+export type ChangeType = 'added' | 'modified' | 'removed';
+
+export interface ChangeEvent {
+  type: ChangeType;
+  collection: string;
+  documentName: string;
+
+  // The document after the change; null when it was removed
+  document: any | null;
+}
+
+// What a subscription watches: one document, or a whole collection
+export interface SubscriptionTarget {
+  collection: string;
+  documentName?: string;
+}
+
+export interface ChangeFeedHandlers {
+  // Report the complete current contents of the target. The subscription
+  // diffs this against what it has already delivered.
+  onSnapshot(documents: any[]): void;
+
+  // Report incremental changes, e.g. from a push channel. `resumeToken` is
+  // handed back to `open` after a reconnect so the feed can resume.
+  onChanges(events: ChangeEvent[], resumeToken?: string): void;
+
+  // The feed has failed and stopped; the subscription will reopen it
+  onError(err: any): void;
+}
+
+export interface ChangeFeed {
+  close(): void;
+
+  // Check for changes now, e.g. after a write through the same adapter
+  refresh?(): void;
+}
+
+// Delivers changes for a target. The default implementation polls; a push
+// channel can be plugged in through `Config.subscriptionTransport`.
+export interface SubscriptionTransport {
+  open(
+    target: SubscriptionTarget,
+    resumeToken: string | undefined,
+    handlers: ChangeFeedHandlers,
+  ): ChangeFeed;
+}
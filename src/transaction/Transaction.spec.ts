@@ -0,0 +1,107 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { MemoryBackend } from '../backend/MemoryBackend';
+import { NotFoundError, TransactionError } from '../errors/DatabaseError';
+import { TransactionState } from './Transaction';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Transactions', () => {
+  const testCollectionName = 'TEST_COLLECTION';
+
+  const backend = new MemoryBackend();
+  const database = new DatabaseAdapter({
+    backend,
+    projectId: 'test-project',
+    projectToken: 'test-token',
+  });
+
+  beforeEach(() => backend.reset());
+
+  it('should return a result per operation', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'first', { value: 1 });
+    await transaction.delete(testCollectionName, 'second');
+
+    const results = await transaction.commit();
+    expect(transaction.state).to.eq(TransactionState.COMMITTED);
+    expect(results.map(({ index, operation, documentName }) => ({ index, operation, documentName })))
+      .to.deep.equal([
+        { index: 0, operation: 'set', documentName: 'first' },
+        { index: 1, operation: 'delete', documentName: 'second' },
+      ]);
+  });
+
+  it('should not be reusable after commit', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'first', { value: 1 });
+    await transaction.commit();
+
+    try {
+      await transaction.set(testCollectionName, 'first', { value: 2 });
+      throw new Error('expected set to throw');
+    } catch (err) {
+      expect(err.message).to.eq('Transaction is committed');
+    }
+
+    try {
+      await transaction.commit();
+      throw new Error('expected commit to throw');
+    } catch (err) {
+      expect(err.message).to.eq('Transaction is committed');
+    }
+  });
+
+  it('should discard writes when aborted', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'first', { value: 1 });
+    transaction.abort();
+    expect(transaction.state).to.eq(TransactionState.ABORTED);
+
+    const documents: any = await database.getAll(testCollectionName, ['first']);
+    expect(documents.length).to.eq(0);
+  });
+
+  it('should report which operation failed', async () => {
+    const transaction = database.beginTransaction();
+    await transaction.set(testCollectionName, 'first', { value: 1 });
+    await transaction.update(testCollectionName, 'missing', { value: 2 });
+
+    try {
+      await transaction.commit();
+      throw new Error('expected commit to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TransactionError);
+      expect(err.operationIndex).to.eq(1);
+      expect(err.operation).to.eq('update');
+      expect(err.documentName).to.eq('missing');
+      expect(err.cause).to.be.instanceOf(NotFoundError);
+    }
+    expect(transaction.state).to.eq(TransactionState.ABORTED);
+  });
+
+  it('should commit when the callback resolves', async () => {
+    const result = await database.runTransaction(async (transaction) => {
+      await transaction.set(testCollectionName, 'first', { value: 1 });
+      return 'done';
+    });
+    expect(result).to.eq('done');
+
+    const document: any = await database.get(testCollectionName, 'first');
+    expect(document.value).to.eq(1);
+  });
+
+  it('should discard writes when the callback throws', async () => {
+    try {
+      await database.runTransaction(async (transaction) => {
+        await transaction.set(testCollectionName, 'first', { value: 1 });
+        throw new Error('callback failed');
+      });
+      throw new Error('expected runTransaction to throw');
+    } catch (err) {
+      expect(err.message).to.eq('callback failed');
+    }
+
+    const documents: any = await database.getAll(testCollectionName, ['first']);
+    expect(documents.length).to.eq(0);
+  });
+});
@@ -0,0 +1,152 @@
+import * as url from 'url';
+
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { ExpiryOptions, RequestOptions, WriteConditions } from '../adapter/RequestOptions';
+import { DatabaseRequest } from '../backend/DatabaseBackend';
+
+export enum TransactionState {
+  OPEN = 'open',
+  COMMITTING = 'committing',
+  COMMITTED = 'committed',
+  ABORTED = 'aborted',
+}
+
+export type TransactionOperationType = 'set' | 'update' | 'arrayPush' | 'arrayRemove' | 'delete';
+
+export interface TransactionOperation {
+  index: number;
+  operation: TransactionOperationType;
+  collection: string;
+  documentName: string;
+}
+
+export interface TransactionResult extends TransactionOperation {
+  // Whatever the service reported for this operation, if anything
+  result?: any;
+}
+
+const operationTypes: { [path: string]: TransactionOperationType } = {
+  '/v1/store/set': 'set',
+  '/v1/store/update': 'update',
+  '/v1/store/update/push': 'arrayPush',
+  '/v1/store/update/remove': 'arrayRemove',
+  '/v1/store/delete': 'delete',
+};
+
+// Describe a queued request in terms of the adapter method that produced it
+export function describeOperation(options: DatabaseRequest, index: number): TransactionOperation {
+  const path = url.parse(String(options.uri)).pathname || '';
+  return {
+    index,
+    operation: operationTypes[path],
+    collection: options.body.collection,
+    documentName: options.body.documentName,
+  };
+}
+
+// A batch of writes that is sent to the service in one request and applied
+// atomically. Writes are queued until `commit`; a transaction can be committed
+// or aborted exactly once. A write whose `conditions` don't hold fails the
+// whole commit with a `TransactionError` caused by a `ConflictError`.
+export class Transaction {
+  private readonly adapter: DatabaseAdapter;
+  private readonly onCommit?: (results: TransactionResult[]) => void;
+  private currentState: TransactionState = TransactionState.OPEN;
+
+  // `adapter` must be in TRANSACTION mode, so its writes are queued rather
+  // than sent. `onCommit` is called once the writes have been applied.
+  constructor(adapter: DatabaseAdapter, onCommit?: (results: TransactionResult[]) => void) {
+    this.adapter = adapter;
+    this.onCommit = onCommit;
+  }
+
+  get state(): TransactionState {
+    return this.currentState;
+  }
+
+  public async set(
+    collection: string,
+    documentName: string,
+    documentBody: any,
+    conditions: WriteConditions & ExpiryOptions = {},
+  ): Promise<void> {
+    this.assertOpen();
+    await this.adapter.set(collection, documentName, documentBody, conditions);
+  }
+
+  public async update(
+    collection: string,
+    documentName: string,
+    documentBody: any,
+    conditions: WriteConditions & ExpiryOptions = {},
+  ): Promise<void> {
+    this.assertOpen();
+    await this.adapter.update(collection, documentName, documentBody, conditions);
+  }
+
+  public async arrayPush(
+    collection: string,
+    documentName: string,
+    documentBody: any,
+    conditions: WriteConditions = {},
+  ): Promise<void> {
+    this.assertOpen();
+    await this.adapter.arrayPush(collection, documentName, documentBody, conditions);
+  }
+
+  public async arrayRemove(
+    collection: string,
+    documentName: string,
+    documentBody: any,
+    conditions: WriteConditions = {},
+  ): Promise<void> {
+    this.assertOpen();
+    await this.adapter.arrayRemove(collection, documentName, documentBody, conditions);
+  }
+
+  public async delete(collection: string, documentName: string, conditions: WriteConditions = {}): Promise<void> {
+    this.assertOpen();
+    await this.adapter.delete(collection, documentName, conditions);
+  }
+
+  // Send every queued write. Resolves with one result per operation, in the
+  // order they were queued; rejects with a `TransactionError` naming the
+  // operation that failed, in which case none of the writes are applied.
+  public async commit(requestOptions: RequestOptions = {}): Promise<TransactionResult[]> {
+    this.assertOpen();
+    this.currentState = TransactionState.COMMITTING;
+
+    let results: TransactionResult[];
+    try {
+      results = await this.adapter.commitTransaction(requestOptions);
+    } catch (err) {
+      this.currentState = TransactionState.ABORTED;
+      throw err;
+    }
+
+    this.currentState = TransactionState.COMMITTED;
+    if (this.onCommit) {
+      this.onCommit(results);
+    }
+    return results;
+  }
+
+  // Discard every queued write without sending anything
+  public abort() {
+    if (this.currentState !== TransactionState.OPEN) {
+      throw new Error(`Cannot abort a transaction that is ${this.currentState}`);
+    }
+    this.currentState = TransactionState.ABORTED;
+  }
+
+  // Kept for compatibility with the adapter-based transaction API
+  public commitTransaction(requestOptions: RequestOptions = {}): Promise<TransactionResult[]> {
+    return this.commit(requestOptions);
+  }
+
+  private assertOpen() {
+    if (this.currentState !== TransactionState.OPEN) {
+      throw new Error(`Transaction is ${this.currentState}`);
+    }
+  }
+}
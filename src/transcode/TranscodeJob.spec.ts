@@ -0,0 +1,127 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { AbortError, TimeoutError, TranscodeError } from '../errors/DatabaseError';
+import { HttpTransport } from '../transport/HttpTransport';
+import { TranscodeJob, TranscodeJobState } from './TranscodeJob';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Transcode jobs', () => {
+  let started: any[];
+  let statuses: { [callbackToken: string]: any[] };
+  let database: DatabaseAdapter;
+
+  beforeEach(() => {
+    started = [];
+    statuses = {};
+    const transport: HttpTransport = {
+      send: async (request) => {
+        const body = JSON.parse(String(request.body));
+        if (request.url.indexOf('/transcode/status') !== -1) {
+          const queue = statuses[body.callbackToken];
+          const status = queue.length > 1 ? queue.shift() : queue[0];
+          return { statusCode: 200, headers: {}, body: JSON.stringify(status) };
+        }
+
+        started.push(body);
+        return {
+          statusCode: 200,
+          headers: {},
+          body: JSON.stringify({ url: 'https://cdn.example.com/out', callbackTokens: ['t1', 't2'] }),
+        };
+      },
+    };
+    database = new DatabaseAdapter({
+      transport,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      baseUrl: 'https://database.example.com',
+    });
+  });
+
+  it('should start a transcode with typed options', async () => {
+    const job = await database.transcode('uploads/photo.jpg', { type: 'image+resize', width: 640, format: 'webp' });
+    expect(started[0]).to.deep.equal({
+      path: 'uploads/photo.jpg',
+      type: 'image+resize',
+      options: { width: 640, format: 'webp' },
+    });
+    expect(job.url).to.eq('https://cdn.example.com/out');
+    expect(job.callbackTokens).to.deep.equal(['t1', 't2']);
+    expect(job.state).to.eq(TranscodeJobState.PENDING);
+
+    const legacy = await database.transcodeAsset('uploads/video.mp4', 'video+hls');
+    expect(started[1]).to.deep.equal({ path: 'uploads/video.mp4', type: 'video+hls' });
+    expect(legacy.callbackToken).to.eq('t1');
+    expect(legacy.callbackTokens).to.deep.equal(['t1', 't2']);
+  });
+
+  it('should wait for every task to finish', async () => {
+    statuses = {
+      t1: [{ isResolved: false, progress: 0.5 }, { isResolved: true }],
+      t2: [{ isResolved: false }, { isResolved: false, progress: 0.5 }, { isResolved: true }],
+    };
+
+    const progress: number[] = [];
+    const job = await database.transcode('uploads/video.mp4', { type: 'video+hls' });
+    await job.wait({ interval: 1, onProgress: ({ progress: value }) => progress.push(value) });
+
+    expect(job.state).to.eq(TranscodeJobState.FINISHED);
+    expect(progress).to.deep.equal([0.25, 0.75, 1]);
+  });
+
+  it('should fail when a task fails', async () => {
+    statuses = {
+      t1: [{ isResolved: true }],
+      t2: [{ isResolved: false, error: 'Unsupported codec' }],
+    };
+
+    const job = await database.transcode('uploads/video.mp4', { type: 'video+hls' });
+    try {
+      await job.wait({ interval: 1 });
+      throw new Error('expected wait to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TranscodeError);
+      expect(err.message).to.eq('Unsupported codec');
+      expect(err.callbackToken).to.eq('t2');
+      expect(job.state).to.eq(TranscodeJobState.FAILED);
+    }
+  });
+
+  it('should time out', async () => {
+    statuses = { t1: [{ isResolved: false }], t2: [{ isResolved: false }] };
+
+    const job = await database.transcode('uploads/video.mp4', { type: 'video+hls' });
+    try {
+      await job.wait({ interval: 5, timeout: 30 });
+      throw new Error('expected wait to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(TimeoutError);
+    }
+  });
+
+  it('should stop waiting when aborted', async () => {
+    statuses = { t1: [{ isResolved: false }], t2: [{ isResolved: false }] };
+
+    const listeners: (() => void)[] = [];
+    const signal = {
+      aborted: false,
+      addEventListener: (type: 'abort', listener: () => void) => listeners.push(listener),
+      removeEventListener: () => undefined,
+    };
+    setTimeout(
+      () => {
+        signal.aborted = true;
+        listeners.forEach(listener => listener());
+      },
+      20,
+    );
+
+    const job = new TranscodeJob(database, 'https://cdn.example.com/out', ['t1', 't2']);
+    try {
+      await job.wait({ signal, interval: 1000 });
+      throw new Error('expected wait to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(AbortError);
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { AbortSignalLike, RequestOptions } from '../adapter/RequestOptions';
+import { TimeoutError, TranscodeError } from '../errors/DatabaseError';
+import { sleep } from '../retry/RetryPolicy';
+
+// What to produce from an uploaded asset. `type` picks the pipeline; the other
+// fields are passed to it as options.
+export type TranscodeOptions =
+  // Adaptive-bitrate HLS stream from a video
+  | { type: 'video+hls' }
+
+  // Still frame from a video, `at` seconds in
+  | { type: 'video+thumbnail', at?: number, width?: number, height?: number, format?: ImageFormat }
+
+  // Resized copy of an image
+  | { type: 'image+resize', width?: number, height?: number, fit?: ImageFit, format?: ImageFormat }
+
+  // Square thumbnail of an image
+  | { type: 'image+thumbnail', size: number, format?: ImageFormat }
+
+  // Loudness-normalized copy of an audio file, to `loudness` LUFS
+  | { type: 'audio+normalize', loudness?: number, format?: AudioFormat };
+
+export type TranscodeType = TranscodeOptions['type'];
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+export type ImageFit = 'cover' | 'contain' | 'inside';
+
+export type AudioFormat = 'mp3' | 'aac';
+
+export enum TranscodeJobState {
+  PENDING = 'pending',
+  FINISHED = 'finished',
+  FAILED = 'failed',
+}
+
+// The status of one callback token, as reported by `getTranscodeStatus`
+export interface TranscodeStatus {
+  isFinished: boolean;
+
+  // 0 to 1, when the service reports it
+  progress?: number;
+
+  // Set when the transcode failed
+  error?: string;
+}
+
+export interface TranscodeWaitOptions {
+  // Milliseconds to wait in total before failing with a TimeoutError.
+  // Unlimited when unset.
+  timeout?: number;
+
+  // Milliseconds between status checks. Defaults to 1000.
+  interval?: number;
+
+  // Stops waiting (with an AbortError) when aborted. The transcode itself
+  // carries on.
+  signal?: AbortSignalLike;
+
+  // Called after every status check
+  onProgress?: (job: TranscodeJob) => void;
+}
+
+// A transcode started with `DatabaseAdapter.transcode`. The service may split
+// the work into several tasks, each with its own callback token; the job is
+// finished once all of them are, and failed as soon as any of them fails.
+//
+//   const job = await database.transcode(path, { type: 'image+resize', width: 640 });
+//   await job.wait({ timeout: 60000, onProgress: ({ progress }) => console.log(progress) });
+//   console.log(job.url);
+export class TranscodeJob {
+  public readonly url: string;
+  public readonly callbackTokens: string[];
+
+  private readonly adapter: DatabaseAdapter;
+  private statuses: TranscodeStatus[];
+
+  constructor(adapter: DatabaseAdapter, url: string, callbackTokens: string[]) {
+    this.adapter = adapter;
+    this.url = url;
+    this.callbackTokens = callbackTokens;
+    this.statuses = callbackTokens.map(() => ({ isFinished: false }));
+  }
+
+  get state(): TranscodeJobState {
+    if (this.statuses.some(({ error }) => !!error)) {
+      return TranscodeJobState.FAILED;
+    }
+    if (this.statuses.every(({ isFinished }) => isFinished)) {
+      return TranscodeJobState.FINISHED;
+    }
+    return TranscodeJobState.PENDING;
+  }
+
+  // The average across tasks, from 0 to 1. Tasks that don't report progress
+  // count as 0 until they finish.
+  get progress(): number {
+    if (this.statuses.length === 0) {
+      return 1;
+    }
+    const total = this.statuses.reduce(
+      (sum, { isFinished, progress }) => sum + (isFinished ? 1 : progress || 0),
+      0,
+    );
+    return total / this.statuses.length;
+  }
+
+  // The first failure reported by any task
+  get error(): string | undefined {
+    const failed = this.statuses.find(({ error }) => !!error);
+    return failed ? failed.error : undefined;
+  }
+
+  // Check the status of every unfinished task
+  public async refresh(requestOptions: RequestOptions = {}): Promise<TranscodeJobState> {
+    this.statuses = await Promise.all(this.callbackTokens.map((callbackToken, index) => (
+      this.statuses[index].isFinished || this.statuses[index].error
+        ? this.statuses[index]
+        : this.adapter.getTranscodeStatus(callbackToken, requestOptions)
+    )));
+    return this.state;
+  }
+
+  // Poll until every task has finished. Rejects with a `TranscodeError` if
+  // one fails.
+  public async wait(options: TranscodeWaitOptions = {}): Promise<TranscodeJob> {
+    const interval = options.interval !== undefined ? options.interval : 1000;
+    const deadline = options.timeout !== undefined ? Date.now() + options.timeout : undefined;
+    const context = { endpoint: '/v1/objectStore/transcode/status' };
+
+    while (true) {
+      const remaining = deadline !== undefined ? deadline - Date.now() : undefined;
+      if (remaining !== undefined && remaining <= 0) {
+        throw new TimeoutError(context);
+      }
+
+      const state = await this.refresh({ signal: options.signal, timeout: remaining });
+      if (options.onProgress) {
+        options.onProgress(this);
+      }
+
+      if (state === TranscodeJobState.FINISHED) {
+        return this;
+      }
+      if (state === TranscodeJobState.FAILED) {
+        const index = this.statuses.findIndex(({ error }) => !!error);
+        throw new TranscodeError(this.error || 'Transcode failed', this.callbackTokens[index], context);
+      }
+
+      const delay = deadline !== undefined ? Math.min(interval, Math.max(deadline - Date.now(), 0)) : interval;
+      await sleep(delay, options.signal);
+    }
+  }
+}
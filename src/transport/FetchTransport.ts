@@ -0,0 +1,101 @@
+import { AbortSignalLike } from '../adapter/RequestOptions';
+import { HttpRequest, HttpResponse, HttpTransport } from './HttpTransport';
+
+// The parts of the Fetch API this transport uses; the global `fetch` of
+// Node 18+ or any compatible implementation will do
+export type FetchLike = (url: string, init: {
+  method: string,
+  headers: { [name: string]: string },
+  body?: string | Buffer,
+  signal?: any,
+}) => Promise<{
+  status: number,
+  headers: { forEach(callback: (value: string, name: string) => void): void },
+  text(): Promise<string>,
+}>;
+
+// Transport built on `fetch`. Streamed bodies are buffered before sending.
+export class FetchTransport implements HttpTransport {
+  private readonly fetch: FetchLike;
+
+  constructor(fetchImplementation?: FetchLike) {
+    const fetch = fetchImplementation || (global as any).fetch;
+    if (!fetch) {
+      throw new Error('No fetch implementation available; pass one to FetchTransport');
+    }
+    this.fetch = fetch;
+  }
+
+  public async send(request: HttpRequest, signal?: AbortSignalLike): Promise<HttpResponse> {
+    const AbortControllerClass = (global as any).AbortController;
+    const controller = AbortControllerClass ? new AbortControllerClass() : undefined;
+
+    let isTimedOut = false;
+    let timer: any;
+    if (controller && request.timeout) {
+      timer = setTimeout(
+        () => {
+          isTimedOut = true;
+          controller.abort();
+        },
+        request.timeout,
+      );
+    }
+
+    const abort = () => controller && controller.abort();
+    if (signal) {
+      if (signal.aborted) {
+        abort();
+      }
+      signal.addEventListener('abort', abort);
+    }
+
+    try {
+      const response = await this.fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: await bufferBody(request.body),
+        signal: controller && controller.signal,
+      });
+
+      const headers: { [name: string]: string } = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return {
+        headers,
+        statusCode: response.status,
+        body: await response.text(),
+      };
+    } catch (err) {
+      if (isTimedOut) {
+        const error: any = new Error('Request timed out');
+        error.code = 'ETIMEDOUT';
+        throw error;
+      }
+      if (!err.code && err.cause && err.cause.code) {
+        err.code = err.cause.code;
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener('abort', abort);
+      }
+    }
+  }
+}
+
+function bufferBody(body: HttpRequest['body']): Promise<string | Buffer | undefined> {
+  if (body === undefined || typeof body === 'string' || Buffer.isBuffer(body)) {
+    return Promise.resolve(body);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    body.on('data', (chunk: any) => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    body.on('error', reject);
+    body.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
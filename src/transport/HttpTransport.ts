@@ -0,0 +1,31 @@
+import { AbortSignalLike } from '../adapter/RequestOptions';
+
+export interface HttpHeaders {
+  [name: string]: string;
+}
+
+export interface HttpRequest {
+  url: string;
+  method: string;
+  headers: HttpHeaders;
+  body?: string | Buffer | NodeJS.ReadableStream;
+
+  // Milliseconds to wait for a response before failing with ETIMEDOUT
+  timeout?: number;
+}
+
+export interface HttpResponse {
+  statusCode: number;
+
+  // Header names are lower-cased
+  headers: { [name: string]: string | string[] | undefined };
+  body: string;
+}
+
+// Sends raw HTTP requests for `HttpBackend`. Implementations resolve with any
+// response, whatever its status, and reject only when no response arrived; the
+// rejection should carry a Node-style `code` (ECONNRESET, ETIMEDOUT, ...) where
+// one applies.
+export interface HttpTransport {
+  send(request: HttpRequest, signal?: AbortSignalLike): Promise<HttpResponse>;
+}
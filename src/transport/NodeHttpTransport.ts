@@ -0,0 +1,91 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as url from 'url';
+
+import { AbortSignalLike } from '../adapter/RequestOptions';
+import { HttpRequest, HttpResponse, HttpTransport } from './HttpTransport';
+
+// Default transport, built on Node's `http`/`https` modules. Pass an `agent` to
+// reuse connections or route through a proxy.
+export class NodeHttpTransport implements HttpTransport {
+  private readonly agent?: http.Agent;
+
+  constructor(options: { agent?: http.Agent } = {}) {
+    this.agent = options.agent;
+  }
+
+  public send(request: HttpRequest, signal?: AbortSignalLike): Promise<HttpResponse> {
+    return new Promise<HttpResponse>((resolve, reject) => {
+      const target = url.parse(request.url);
+      const client = target.protocol === 'https:' ? https : http;
+
+      const req = client.request(
+        {
+          protocol: target.protocol,
+          hostname: target.hostname,
+          port: target.port,
+          path: target.path,
+          method: request.method,
+          headers: request.headers,
+          agent: this.agent,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('error', fail);
+          res.on('end', () => {
+            cleanup();
+            resolve({
+              statusCode: res.statusCode || 0,
+              headers: res.headers,
+              body: Buffer.concat(chunks).toString('utf8'),
+            });
+          });
+        },
+      );
+
+      const abort = () => {
+        const error: any = new Error('Request aborted');
+        error.code = 'ABORT_ERR';
+        req.destroy(error);
+      };
+
+      function cleanup() {
+        if (signal) {
+          signal.removeEventListener('abort', abort);
+        }
+      }
+
+      function fail(err: any) {
+        cleanup();
+        reject(err);
+      }
+
+      req.on('error', fail);
+
+      if (request.timeout) {
+        req.setTimeout(request.timeout, () => {
+          const error: any = new Error('Request timed out');
+          error.code = 'ETIMEDOUT';
+          req.destroy(error);
+        });
+      }
+
+      if (signal) {
+        if (signal.aborted) {
+          abort();
+          return;
+        }
+        signal.addEventListener('abort', abort);
+      }
+
+      const { body } = request;
+      if (body === undefined || typeof body === 'string' || Buffer.isBuffer(body)) {
+        req.end(body);
+      } else {
+        body.on('error', (err: any) => req.destroy(err));
+        body.pipe(req);
+      }
+    });
+  }
+}
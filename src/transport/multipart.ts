@@ -0,0 +1,74 @@
+import { PassThrough } from 'stream';
+
+export interface FormFile {
+  value: string | Buffer | NodeJS.ReadableStream;
+  options?: {
+    filename?: string;
+    contentType?: string;
+  };
+}
+
+export interface FormData {
+  [field: string]: string | Buffer | FormFile;
+}
+
+// Encode `formData` as a multipart/form-data body, streaming any stream values
+// rather than buffering them
+export function encodeMultipart(formData: FormData): { body: NodeJS.ReadableStream, contentType: string } {
+  const boundary = `----KojiDatabaseBoundary${Math.random().toString(16).slice(2)}`;
+  const output = new PassThrough();
+
+  const parts = Object.keys(formData).map((field) => {
+    const entry = formData[field];
+    const file: FormFile = typeof entry === 'string' || Buffer.isBuffer(entry) ? { value: entry } : entry;
+    const options = file.options || {};
+
+    const disposition = options.filename
+      ? `form-data; name="${quoteParameter(field)}"; filename="${quoteParameter(options.filename)}"`
+      : `form-data; name="${quoteParameter(field)}"`;
+    const contentType = options.contentType
+      || (options.filename || typeof file.value !== 'string' ? 'application/octet-stream' : undefined);
+
+    const headerLines = [`--${boundary}`, `Content-Disposition: ${disposition}`]
+      .concat(contentType ? [`Content-Type: ${contentType}`] : []);
+    const header = `${headerLines.join('\r\n')}\r\n\r\n`;
+    return { header, value: file.value };
+  });
+
+  const writeNext = (index: number) => {
+    if (index >= parts.length) {
+      output.end(`--${boundary}--\r\n`);
+      return;
+    }
+
+    const { header, value } = parts[index];
+    output.write(header);
+
+    if (typeof value === 'string' || Buffer.isBuffer(value)) {
+      output.write(value);
+      output.write('\r\n');
+      writeNext(index + 1);
+      return;
+    }
+
+    value.on('error', (err: any) => output.emit('error', err));
+    value.on('end', () => {
+      output.write('\r\n');
+      writeNext(index + 1);
+    });
+    value.pipe(output, { end: false });
+  };
+
+  writeNext(0);
+
+  return {
+    body: output,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
+
+// Percent-encode the characters that would end a quoted header parameter or
+// the header itself, as browsers do for form field and file names
+function quoteParameter(value: string): string {
+  return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { DatabaseAdapter } from '../adapter/DatabaseAdapter';
+import { UnauthorizedError, UploadTooLargeError } from '../errors/DatabaseError';
+import { HttpRequest, HttpTransport } from '../transport/HttpTransport';
+import { UploadProgress } from './UploadSource';
+import { detectContentType } from './contentType';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Uploads', () => {
+  let sent: { request: HttpRequest, body: string }[];
+  let statusCode: number;
+  let database: DatabaseAdapter;
+
+  function readBody(body: HttpRequest['body']): Promise<string> {
+    if (body === undefined || typeof body === 'string' || Buffer.isBuffer(body)) {
+      return Promise.resolve(String(body || ''));
+    }
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      body.on('data', (chunk: any) => chunks.push(Buffer.from(chunk)));
+      body.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      body.on('error', reject);
+    });
+  }
+
+  beforeEach(() => {
+    sent = [];
+    statusCode = 200;
+    const transport: HttpTransport = {
+      send: async (request) => {
+        sent.push({ request, body: await readBody(request.body) });
+        return { statusCode, headers: {}, body: JSON.stringify({ url: 'https://cdn.example.com/file' }) };
+      },
+    };
+    database = new DatabaseAdapter({
+      transport,
+      projectId: 'test-project',
+      projectToken: 'test-token',
+      baseUrl: 'https://database.example.com',
+    });
+  });
+
+  it('should upload a buffer with a detected content type and progress', async () => {
+    const progress: UploadProgress[] = [];
+    const contents = Buffer.alloc(150 * 1024, 'a');
+    const url = await database.upload(contents, {
+      filename: 'avatar.png',
+      onProgress: update => progress.push(update),
+    });
+
+    expect(url).to.eq('https://cdn.example.com/file');
+    expect(sent[0].request.url).to.eq('https://database.example.com/v1/objectStore/upload');
+    expect(sent[0].body).to.contain('filename="avatar.png"');
+    expect(sent[0].body).to.contain('Content-Type: image/png');
+    expect(progress.length).to.eq(3);
+    expect(progress[progress.length - 1]).to.deep.equal({ loaded: contents.length, total: contents.length });
+  });
+
+  it('should upload a file path under its own name', async () => {
+    const filePath = path.join(os.tmpdir(), `koji-upload-${process.pid}.txt`);
+    fs.writeFileSync(filePath, 'hello');
+    try {
+      await database.uploadFile(filePath);
+    } finally {
+      fs.unlinkSync(filePath);
+    }
+
+    expect(sent[0].body).to.contain(`filename="koji-upload-${process.pid}.txt"`);
+    expect(sent[0].body).to.contain('Content-Type: text/plain');
+    expect(sent[0].body).to.contain('hello');
+  });
+
+  it('should escape quotes and line breaks in file names', async () => {
+    await database.upload(Buffer.from('x'), { filename: 'a"b\r\nX-Injected: 1.txt' });
+
+    expect(sent[0].body).to.contain('filename="a%22b%0D%0AX-Injected: 1.txt"');
+    expect(sent[0].body).to.not.contain('\r\nX-Injected');
+  });
+
+  it('should reject uploads over the size limit before sending', async () => {
+    try {
+      await database.upload(Buffer.alloc(10), { maxSize: 5 });
+      throw new Error('expected upload to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(UploadTooLargeError);
+      expect(err.size).to.eq(10);
+    }
+    expect(sent.length).to.eq(0);
+  });
+
+  it('should stop streams that pass the size limit', async () => {
+    const stream = new PassThrough();
+    stream.end(Buffer.alloc(10));
+    try {
+      await database.upload(stream, { maxSize: 5 });
+      throw new Error('expected upload to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(UploadTooLargeError);
+    }
+  });
+
+  it('should post signed uploads straight to the bucket', async () => {
+    const url = await database.postSignedUpload(
+      {
+        url: 'https://cdn.example.com/intro.mp4',
+        signedRequest: {
+          url: 'https://bucket.example.com/',
+          fields: { key: 'intro.mp4', policy: 'abc' },
+        },
+      },
+      Buffer.from('video'),
+      { filename: 'intro.mp4' },
+    );
+
+    expect(url).to.eq('https://cdn.example.com/intro.mp4');
+    expect(sent[0].request.url).to.eq('https://bucket.example.com/');
+    expect(sent[0].request.headers).to.not.have.property('X-Koji-Project-Token');
+    const { body } = sent[0];
+    expect(body.indexOf('name="key"')).to.be.lessThan(body.indexOf('name="file"'));
+    expect(body.indexOf('name="policy"')).to.be.lessThan(body.indexOf('name="file"'));
+    expect(body).to.contain('Content-Type: video/mp4');
+
+    statusCode = 403;
+    try {
+      await database.postSignedUpload({ url: '', signedRequest: { url: 'https://bucket.example.com/', fields: {} } }, Buffer.from('x'));
+      throw new Error('expected upload to throw');
+    } catch (err) {
+      expect(err).to.be.instanceOf(UnauthorizedError);
+    }
+  });
+
+  it('should detect content types from file names', () => {
+    expect(detectContentType('clip.MP4')).to.eq('video/mp4');
+    expect(detectContentType('data.json')).to.eq('application/json');
+    expect(detectContentType('unknown.xyz')).to.be.undefined;
+    expect(detectContentType()).to.be.undefined;
+  });
+});
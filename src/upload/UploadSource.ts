@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+
+import { RequestOptions } from '../adapter/RequestOptions';
+import { UploadTooLargeError } from '../errors/DatabaseError';
+import { detectContentType } from './contentType';
+
+// A file path, the file's contents, or a stream of them
+export type UploadSource = string | Buffer | NodeJS.ReadableStream;
+
+export interface UploadProgress {
+  // Bytes handed to the network so far
+  loaded: number;
+
+  // Undefined for streams whose `size` wasn't given
+  total?: number;
+}
+
+export interface UploadOptions extends RequestOptions {
+  // Defaults to the base name of a path source
+  filename?: string;
+
+  // Defaults to a type guessed from `filename`
+  contentType?: string;
+
+  // Size in bytes of a stream source, for progress and the size limit
+  size?: number;
+
+  // Largest upload allowed, in bytes. Overrides `Config.maxUploadSize`.
+  maxSize?: number;
+
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface PreparedUpload {
+  stream: NodeJS.ReadableStream;
+  filename?: string;
+  contentType: string;
+  size?: number;
+}
+
+const chunkSize = 64 * 1024;
+
+// Turn `source` into a stream that reports progress and enforces `maxSize`.
+// Sources of known size that are too large are rejected before anything is
+// read; streams fail as soon as they pass the limit.
+export async function prepareUpload(
+  source: UploadSource,
+  options: UploadOptions,
+  maxSize?: number,
+): Promise<PreparedUpload> {
+  const filename = options.filename || (typeof source === 'string' ? path.basename(source) : undefined);
+  const contentType = options.contentType || detectContentType(filename) || 'application/octet-stream';
+  const size = options.size !== undefined ? options.size : await sizeOf(source);
+
+  if (maxSize !== undefined && size !== undefined && size > maxSize) {
+    throw new UploadTooLargeError(maxSize, size);
+  }
+
+  return {
+    filename,
+    contentType,
+    size,
+    stream: measure(toStream(source), size, maxSize, options.onProgress),
+  };
+}
+
+function sizeOf(source: UploadSource): Promise<number | undefined> {
+  if (Buffer.isBuffer(source)) {
+    return Promise.resolve(source.length);
+  }
+  if (typeof source !== 'string') {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve, reject) => {
+    fs.stat(source, (err, stats) => (err ? reject(err) : resolve(stats.size)));
+  });
+}
+
+// Buffers are streamed in chunks so progress is reported as they're sent
+function toStream(source: UploadSource): NodeJS.ReadableStream {
+  if (typeof source === 'string') {
+    return fs.createReadStream(source);
+  }
+  if (!Buffer.isBuffer(source)) {
+    return source;
+  }
+
+  let offset = 0;
+  return new Readable({
+    read() {
+      if (offset >= source.length) {
+        this.push(null);
+        return;
+      }
+      this.push(source.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+function measure(
+  source: NodeJS.ReadableStream,
+  total: number | undefined,
+  maxSize: number | undefined,
+  onProgress?: (progress: UploadProgress) => void,
+): NodeJS.ReadableStream {
+  const output = new PassThrough();
+  let loaded = 0;
+
+  source.on('data', (chunk: Buffer | string) => {
+    loaded += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+    if (maxSize !== undefined && loaded > maxSize) {
+      source.unpipe(output);
+      source.pause();
+      output.emit('error', new UploadTooLargeError(maxSize));
+      return;
+    }
+    if (onProgress) {
+      onProgress({ loaded, total });
+    }
+  });
+  source.on('error', (err: any) => output.emit('error', err));
+  source.pipe(output);
+
+  return output;
+}
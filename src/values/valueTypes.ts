@@ -0,0 +1,78 @@
+// Markers that can stand in for a field value in an `update` (or `set`) body.
+// The backend resolves them against the stored document, so several can be
+// combined in one atomic write:
+//
+//   await database.update('polls', 'current', {
+//     votes: valueTypes.increment(1),
+//     'stats.lastVoteAt': valueTypes.serverTimestamp(),
+//     voters: valueTypes.arrayUnion(userId),
+//   });
+//
+// Keys containing dots address nested fields. The hosted API only resolves
+// `increment`; everything else needs a backend with the `fieldOperators`
+// feature, and the adapter rejects it before sending otherwise.
+export interface ValueMarker {
+  _updateType: string;
+  value?: any;
+}
+
+export const valueTypes = {
+  // Add `number` to the field, treating a missing field as 0
+  increment: (number: number): ValueMarker => ({
+    _updateType: 'increment',
+    value: number,
+  }),
+
+  decrement: (number: number): ValueMarker => ({
+    _updateType: 'increment',
+    value: -number,
+  }),
+
+  multiply: (number: number): ValueMarker => ({
+    _updateType: 'multiply',
+    value: number,
+  }),
+
+  // Keep the smaller (or larger) of the stored value and `number`
+  min: (number: number): ValueMarker => ({
+    _updateType: 'min',
+    value: number,
+  }),
+
+  max: (number: number): ValueMarker => ({
+    _updateType: 'max',
+    value: number,
+  }),
+
+  // Only write `value` if the field is missing
+  setIfAbsent: (value: any): ValueMarker => ({
+    _updateType: 'setIfAbsent',
+    value,
+  }),
+
+  // Remove the field from the document
+  delete: (): ValueMarker => ({
+    _updateType: 'delete',
+  }),
+
+  // The service's current time, in milliseconds since the epoch
+  serverTimestamp: (): ValueMarker => ({
+    _updateType: 'serverTimestamp',
+  }),
+
+  // Append each item not already in the array
+  arrayUnion: (...items: any[]): ValueMarker => ({
+    _updateType: 'arrayUnion',
+    value: items,
+  }),
+
+  // Remove every occurrence of each item
+  arrayRemove: (...items: any[]): ValueMarker => ({
+    _updateType: 'arrayRemove',
+    value: items,
+  }),
+};
+
+export function isValueMarker(value: any): value is ValueMarker {
+  return !!value && typeof value === 'object' && typeof value._updateType === 'string';
+}